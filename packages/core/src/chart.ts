@@ -1,16 +1,32 @@
 import type {
-  SankeyConfig, SankeyGraph, TabularData, TransformConfig,
-  SankeyEventName, SankeyEventHandler, JourneyMetrics,
+  SankeyConfig, SankeyGraph, TabularData, TransformConfig, EventLogConfig, PathConfig,
+  SankeyEventName, SankeyEventHandler, JourneyMetrics, JourneyPath, RowIssues, SankeyDiagnostics,
+  GraphFilterOptions, DataExportFormat,
 } from './types/index.js';
 import { DEFAULT_CONFIG } from './types/index.js';
 import { SankeyLayout } from './layout/sankey.js';
 import { PathGenerator } from './layout/path.js';
 import { SankeyRenderer } from './render/renderer.js';
+import { CanvasRenderer } from './render/canvas.js';
+import { renderToSVGString } from './render/string.js';
+import type { SVGStringOptions } from './render/string.js';
+import { rasterizeSVG } from './render/image.js';
+import type { PNGExportOptions } from './render/image.js';
+import { collectFontFaces, inlineFontURLs } from './render/fonts.js';
+import { resolveTheme } from './render/theme.js';
+import { DiagnosticsOverlay } from './render/overlay.js';
 import { EventManager } from './interactions/events.js';
 import { Highlighter } from './interactions/highlighter.js';
 import { TooltipManager } from './interactions/tooltip.js';
 import { TabularTransform } from './transforms/tabular.js';
+import { EventLogTransform } from './transforms/eventlog.js';
+import { PathTransform } from './transforms/path.js';
+import { ComparisonTransform } from './transforms/comparison.js';
 import { JourneyAnalyzer } from './transforms/journey.js';
+import { OtherBucketer } from './transforms/bucket.js';
+import { DiagnosticsAnalyzer } from './transforms/diagnostics.js';
+import { GraphFilter } from './transforms/filter.js';
+import { GraphExporter } from './transforms/export.js';
 
 /**
  * Main public API for the Sankey chart.
@@ -21,12 +37,35 @@ import { JourneyAnalyzer } from './transforms/journey.js';
  */
 export class SankeyChart {
   private config: SankeyConfig;
+  private container: HTMLElement;
   private layout: SankeyLayout;
   private renderer: SankeyRenderer;
+  /** Canvas backend, created the first time a graph is drawn on canvas */
+  private canvas: CanvasRenderer | null = null;
+  /** Whether the current graph is drawn on the canvas */
+  private canvasActive = false;
   private events: EventManager;
   private highlighter: Highlighter;
   private tooltips: TooltipManager;
+  private overlay: DiagnosticsOverlay;
+  /** Row-level issues reported by the last transform */
+  private issues: RowIssues = { skippedRows: [], coercedValues: [] };
+  /** Report for the current data, computed on first request */
+  private diagnostics: SankeyDiagnostics | null = null;
+  /** Graph as passed in, before filtering and bucketing */
+  private source: SankeyGraph | null = null;
+  /** Active subgraph selection, cleared when new data is set */
+  private activeFilter: GraphFilterOptions | null = null;
+  /** Graph being displayed */
   private graph: SankeyGraph | null = null;
+  /** Goal reach per node id for tooltips and badges, while `goals` are set */
+  private goalMetrics: Map<string, JourneyMetrics> | null = null;
+  /** Measure sizing the chart, when the data has several */
+  private measure: string | null = null;
+  /** Journey kept highlighted between hovers, cleared when the graph changes */
+  private selectedPath: JourneyPath | null = null;
+  /** Incremented per layout so stale async results are dropped */
+  private layoutVersion = 0;
 
   constructor(container: HTMLElement, config?: Partial<SankeyConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -34,6 +73,7 @@ export class SankeyChart {
       this.config.padding = { ...DEFAULT_CONFIG.padding, ...config.padding };
     }
 
+    this.container = container;
     this.layout = new SankeyLayout(this.config);
     this.renderer = new SankeyRenderer(container, this.config);
     this.events = new EventManager(
@@ -47,14 +87,15 @@ export class SankeyChart {
       this.config,
     );
     this.tooltips = new TooltipManager(container, this.config);
+    this.overlay = new DiagnosticsOverlay(container, this.config);
 
     // Wire up default interactions
     this.events.on('node:hover', ({ node, event }) => {
       this.highlighter.highlightNode(node);
-      this.tooltips.showNode(node, event);
+      this.tooltips.showNode(node, event, this.goalDisplayed('tooltip') ? this.goalMetrics?.get(node.id) : undefined);
     });
     this.events.on('node:leave', () => {
-      this.highlighter.reset();
+      this.restoreHighlight();
       this.tooltips.hide();
     });
     this.events.on('link:hover', ({ link, event }) => {
@@ -62,56 +103,255 @@ export class SankeyChart {
       this.tooltips.showLink(link, event);
     });
     this.events.on('link:leave', () => {
-      this.highlighter.reset();
+      this.restoreHighlight();
       this.tooltips.hide();
     });
-    this.events.on('node:drag', () => {
-      if (this.graph) {
-        // Re-render links/labels after drag (node positions changed)
-        this.renderer.render(this.graph);
-        this.events.bind(this.graph);
-      }
+    this.events.on('node:drag', ({ node }) => {
+      if (!this.graph) return;
+      // Only the dragged node, its links and its label move; events stay bound
+      if (this.canvasActive) this.canvas!.render(this.graph, this.badgeMetrics());
+      else this.renderer.moveNode(node);
+      this.restoreHighlight();
     });
   }
 
-  /** Set data from tabular format (typical BI tool output) */
-  setData(data: TabularData, transformConfig: TransformConfig): void {
-    const graph = TabularTransform.transform(data, transformConfig, this.config);
-    this.setGraph(graph);
+  /**
+   * Set data from tabular format (typical BI tool output). The config picks
+   * the row shape: source/target pairs (`TransformConfig`), raw events
+   * (`EventLogConfig`) or wide step columns (`PathConfig`).
+   * The returned promise resolves once the chart has rendered; without a
+   * `layoutWorker` that has already happened when this returns.
+   */
+  setData(data: TabularData, transformConfig: TransformConfig | EventLogConfig | PathConfig): Promise<void> {
+    const issues: RowIssues = { skippedRows: [], coercedValues: [] };
+    let graph: SankeyGraph;
+    if ('eventField' in transformConfig) {
+      graph = EventLogTransform.transform(data, transformConfig, this.config, issues);
+    } else if ('stepFields' in transformConfig) {
+      graph = PathTransform.transform(data, transformConfig, this.config, issues);
+    } else {
+      graph = TabularTransform.transform(data, transformConfig, this.config, issues);
+    }
+    return this.load(graph, issues);
+  }
+
+  /**
+   * Compare two periods of source/target rows: ribbons are sized by
+   * `current` and colored by their change from `baseline`, and tooltips
+   * show both values. Diagnostics cover the current rows.
+   */
+  setComparisonData(current: TabularData, baseline: TabularData, transformConfig: TransformConfig): Promise<void> {
+    const issues: RowIssues = { skippedRows: [], coercedValues: [] };
+    const graph = ComparisonTransform.transform(current, baseline, transformConfig, this.config, issues);
+    return this.load(graph, issues);
   }
 
   /** Set data from a pre-built graph (advanced use) */
-  setGraph(graph: SankeyGraph): void {
-    this.graph = graph;
-    this.layout.compute(graph);
-    this.renderer.render(graph);
-    this.events.bind(graph);
+  setGraph(graph: SankeyGraph): Promise<void> {
+    return this.load(graph, { skippedRows: [], coercedValues: [] });
+  }
+
+  /**
+   * Data-quality report for the current data: rows the transform skipped
+   * and why, converted values, self-loops, cycles, disconnected parts and
+   * flow imbalance. Null before any data is set.
+   */
+  getDiagnostics(): SankeyDiagnostics | null {
+    if (!this.source) return null;
+    this.diagnostics ??= DiagnosticsAnalyzer.analyze(this.source, this.issues);
+    return this.diagnostics;
+  }
+
+  /**
+   * Show a subgraph of the current data: include/exclude nodes, drop small
+   * links, keep the top N links, or focus on one node. Replaces any previous
+   * filter and lays out the result; the data itself is kept, so filters can
+   * be changed or cleared without setting it again.
+   */
+  filter(options: GraphFilterOptions): Promise<void> {
+    this.activeFilter = { ...options };
+    return this.refresh();
+  }
+
+  /**
+   * Only show flows through a node: up to `upstream` hops into it and
+   * `downstream` hops out of it (unlimited by default). Keeps other filter
+   * criteria.
+   */
+  focus(nodeId: string, hops?: { upstream?: number; downstream?: number }): Promise<void> {
+    return this.filter({ ...this.activeFilter, focus: { node: nodeId, ...hops } });
+  }
+
+  /** Remove the filter and show the full graph again */
+  clearFilter(): Promise<void> {
+    this.activeFilter = null;
+    return this.refresh();
+  }
+
+  /** The active filter, or null */
+  getFilter(): GraphFilterOptions | null {
+    return this.activeFilter;
+  }
+
+  private load(graph: SankeyGraph, issues: RowIssues): Promise<void> {
+    this.source = graph;
+    this.issues = issues;
+    this.diagnostics = null;
+    this.activeFilter = null;
+    this.measure = this.getMeasures()[0] ?? null;
+    return this.refresh();
+  }
+
+  /** Measures in the current data (see `valueFields`), the initially active one first */
+  getMeasures(): string[] {
+    const link = this.source?.links.find(l => l.values);
+    return link ? Object.keys(link.values!) : [];
+  }
+
+  /** The measure sizing the chart, or null when the data has a single value */
+  getMeasure(): string | null {
+    return this.measure;
+  }
+
+  /**
+   * Size the chart by another measure from `getMeasures()`. Re-lays out the
+   * existing graph, keeping the filter; unknown measures are ignored.
+   */
+  setMeasure(measure: string): Promise<void> {
+    if (!this.source || !this.getMeasures().includes(measure)) return Promise.resolve();
+    this.measure = measure;
+    for (const link of this.source.links) {
+      if (link.values) link.value = link.values[measure] ?? 0;
+    }
+    ComparisonTransform.measure(this.source, measure);
+    // Imbalance and the like depend on values
+    this.diagnostics = null;
+    return this.refresh();
+  }
+
+  /** Re-derive the displayed graph from the source and lay it out */
+  private refresh(): Promise<void> {
+    if (!this.source) return Promise.resolve();
+    this.selectedPath = null;
+    this.graph = this.prepare(this.source);
+    return this.relayout();
   }
 
   /** Update configuration and re-render */
-  updateConfig(config: Partial<SankeyConfig>): void {
+  updateConfig(config: Partial<SankeyConfig>): Promise<void> {
+    const workerChanged = 'layoutWorker' in config && config.layoutWorker !== this.config.layoutWorker;
     Object.assign(this.config, config);
     if (config.padding) {
       this.config.padding = { ...this.config.padding, ...config.padding };
     }
-    if (this.graph) {
-      this.layout = new SankeyLayout(this.config);
-      this.layout.compute(this.graph);
-      this.renderer.resize(this.config.width, this.config.height);
-      this.renderer.render(this.graph);
-      this.events.bind(this.graph);
+    if (workerChanged) this.layout.dispose();
+    if ('otherBucket' in config && this.source) {
+      this.selectedPath = null;
+      this.graph = this.prepare(this.source);
     }
+    this.renderer.resize(this.config.width, this.config.height);
+    this.canvas?.resize(this.config.width, this.config.height);
+    return this.relayout();
+  }
+
+  /** Apply display-only graph transforms: the filter, then "Other" bucketing */
+  private prepare(graph: SankeyGraph): SankeyGraph {
+    if (this.activeFilter) graph = GraphFilter.apply(graph, this.activeFilter);
+    if (!this.config.otherBucket) return graph;
+    this.layout.assignColumns(graph);
+    return OtherBucketer.bucket(graph, this.config.otherBucket);
+  }
+
+  /** Lay out the current graph (in the worker, if configured) and render it */
+  private relayout(): Promise<void> {
+    const graph = this.graph;
+    if (!graph) return Promise.resolve();
+    const version = ++this.layoutVersion;
+
+    if (!this.config.layoutWorker) {
+      this.layout.compute(graph);
+      this.draw(graph);
+      return Promise.resolve();
+    }
+    return this.layout.computeAsync(graph).then(() => {
+      if (version === this.layoutVersion) this.draw(graph);
+    });
+  }
+
+  private draw(graph: SankeyGraph): void {
+    this.goalMetrics = this.config.goals?.length
+      ? new Map(JourneyAnalyzer.analyze(graph, this.config.goals).map(m => [m.nodeId, m]))
+      : null;
+    this.paint(graph);
+    this.overlay.update(this.config.diagnosticsOverlay ? this.getDiagnostics() : null);
+  }
+
+  /** Render on the SVG or canvas backend and bind events to it */
+  private paint(graph: SankeyGraph): void {
+    const { renderer, canvasThreshold } = this.config;
+    const useCanvas = renderer === 'canvas' || (renderer === 'auto' && graph.links.length > canvasThreshold);
+    if (useCanvas !== this.canvasActive) {
+      this.canvasActive = useCanvas;
+      if (useCanvas) this.canvas ??= new CanvasRenderer(this.container, this.config);
+      // Drop the SVG elements, so hiding them leaves nothing costly behind
+      if (useCanvas) this.renderer.render({ nodes: [], links: [] }, undefined, false);
+      this.renderer.setVisible(!useCanvas);
+      this.canvas?.setVisible(useCanvas);
+      this.highlighter.setCanvas(useCanvas ? this.canvas : null);
+    }
+
+    if (this.canvasActive) {
+      this.canvas!.render(graph, this.badgeMetrics());
+      this.events.bindCanvas(graph, this.canvas!);
+    } else {
+      this.renderer.render(graph, this.badgeMetrics());
+      this.events.bind(graph);
+    }
+    this.restoreHighlight();
+  }
+
+  private goalDisplayed(where: 'tooltip' | 'badge'): boolean {
+    return this.config.goalDisplay === where || this.config.goalDisplay === 'both';
+  }
+
+  private badgeMetrics(): Map<string, JourneyMetrics> | undefined {
+    return this.goalDisplayed('badge') ? this.goalMetrics ?? undefined : undefined;
+  }
+
+  /** Back to the selected journey's highlight, or none */
+  private restoreHighlight(): void {
+    if (this.selectedPath) this.highlighter.highlightPath(this.selectedPath.links);
+    else this.highlighter.reset();
   }
 
   /** Resize the chart */
-  resize(width: number, height: number): void {
-    this.updateConfig({ width, height });
+  resize(width: number, height: number): Promise<void> {
+    return this.updateConfig({ width, height });
   }
 
-  /** Get journey analytics for the current graph */
+  /** Get journey analytics for the current graph, with goal reach and attribution when `goals` are set */
   getJourneyMetrics(): JourneyMetrics[] {
     if (!this.graph) return [];
-    return JourneyAnalyzer.analyze(this.graph);
+    return JourneyAnalyzer.analyze(this.graph, this.config.goals);
+  }
+
+  /**
+   * The `k` most common full journeys in the displayed graph, with estimated
+   * volume and share of all entries (see `JourneyAnalyzer.topPaths`)
+   */
+  getTopPaths(k = 10): JourneyPath[] {
+    if (!this.graph) return [];
+    return JourneyAnalyzer.topPaths(this.graph, k);
+  }
+
+  /**
+   * Keep a journey from `getTopPaths` highlighted; hovering still highlights
+   * other flows until the pointer leaves. Pass null to clear. Cleared when
+   * the data or filter changes.
+   */
+  highlightPath(path: JourneyPath | null): void {
+    this.selectedPath = path;
+    this.restoreHighlight();
   }
 
   /** Subscribe to chart events */
@@ -124,11 +364,47 @@ export class SankeyChart {
     this.events.off(event, handler);
   }
 
-  /** Get the underlying SVG element */
+  /** Get the underlying SVG element (empty and hidden while drawing on canvas) */
   getSVG(): SVGSVGElement {
     return this.renderer.getSVG();
   }
 
+  /** The canvas the chart is drawn on, or null while it uses SVG */
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvasActive ? this.canvas!.getCanvas() : null;
+  }
+
+  /**
+   * The chart as a standalone SVG document: gradients, filters and fonts are
+   * defined inside it, so it renders the same outside the page. Without
+   * `fontCSS`, the page's `@font-face` rules for the theme font are embedded.
+   * Drawn as SVG even while the chart is on canvas.
+   */
+  exportSVG(options: SVGStringOptions = {}): string {
+    const fontCSS = options.fontCSS ?? collectFontFaces(resolveTheme(this.config.theme).fontFamily);
+    return renderToSVGString(this.graph ?? { nodes: [], links: [] }, this.config, { ...options, fontCSS });
+  }
+
+  /**
+   * The chart as a PNG image, at `scale` pixels per chart unit. The embedded
+   * fonts are downloaded into the document first, since an SVG drawn as an
+   * image can't fetch them.
+   */
+  exportPNG(options: PNGExportOptions = {}): Promise<Blob> {
+    const scale = options.scale ?? Math.max(2, window.devicePixelRatio || 1);
+    const fontCSS = options.fontCSS ?? collectFontFaces(resolveTheme(this.config.theme).fontFamily);
+    return inlineFontURLs(fontCSS).then(inlined =>
+      rasterizeSVG(this.exportSVG({ ...options, fontCSS: inlined }), this.config.width, this.config.height, scale));
+  }
+
+  /** Node and link values with journey metrics (and goal reach, when `goals` are set) as CSV or JSON */
+  exportData(format: DataExportFormat = 'csv'): string {
+    const graph = this.graph ?? { nodes: [], links: [] };
+    return format === 'json'
+      ? GraphExporter.toJSON(graph, this.config.goals)
+      : GraphExporter.toCSV(graph, this.config.goals);
+  }
+
   /** Get the current graph */
   getGraph(): SankeyGraph | null {
     return this.graph;
@@ -136,9 +412,15 @@ export class SankeyChart {
 
   /** Cleanup and remove the chart */
   destroy(): void {
+    this.layoutVersion++;
+    this.layout.dispose();
     this.events.unbind();
     this.tooltips.destroy();
+    this.overlay.destroy();
     this.renderer.destroy();
+    this.canvas?.destroy();
+    this.source = null;
+    this.activeFilter = null;
     this.graph = null;
   }
 }
@@ -0,0 +1,11 @@
+import type { SankeyLink } from './types/index.js';
+
+/**
+ * Stable identity of a link, used for `data-link-id` attributes, event
+ * lookups, highlighting and gradient caching. `link.id` when set, otherwise
+ * the JSON-encoded pair of endpoint ids — unambiguous whatever characters
+ * the ids contain.
+ */
+export function linkKey(link: SankeyLink): string {
+  return link.id ?? JSON.stringify([link.source.id, link.target.id]);
+}
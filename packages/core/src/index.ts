@@ -7,28 +7,66 @@ export type {
   SankeyLink,
   SankeyGraph,
   SankeyConfig,
+  Orientation,
+  LayoutQuality,
+  OtherBucketConfig,
+  ThemeName,
+  ThemeConfig,
+  SankeyTheme,
   Padding,
   TabularData,
   ColumnDef,
   TransformConfig,
+  EventLogConfig,
+  PathConfig,
+  ComparisonValues,
+  LinkColorMode,
   JourneyMetrics,
+  JourneyPath,
+  ExportedNode,
+  ExportedLink,
+  GraphExport,
+  DataExportFormat,
+  GraphFilterOptions,
+  SkipReason,
+  RowIssues,
+  SankeyDiagnostics,
   SankeyEvents,
   SankeyEventName,
   SankeyEventHandler,
 } from './types/index.js';
 export { DEFAULT_CONFIG } from './types/index.js';
+export { linkKey } from './identity.js';
 
 // Layout (for advanced use)
 export { SankeyLayout } from './layout/sankey.js';
 export { PathGenerator } from './layout/path.js';
+export { toLayoutRequest, fromLayoutRequest, toLayoutResult, applyLayoutResult } from './layout/transfer.js';
+export type { LayoutRequest, LayoutResult } from './layout/transfer.js';
 
 // Renderer (for advanced use)
 export { SankeyRenderer } from './render/renderer.js';
+export { renderToSVGString } from './render/string.js';
+export type { SVGStringOptions } from './render/string.js';
+export { rasterizeSVG } from './render/image.js';
+export type { PNGExportOptions } from './render/image.js';
+export { CanvasRenderer } from './render/canvas.js';
+export type { CanvasHit } from './render/canvas.js';
 export { GradientManager } from './render/gradient.js';
+export { THEMES, resolveTheme } from './render/theme.js';
+export { DiagnosticsOverlay } from './render/overlay.js';
 
 // Transforms (for advanced use)
 export { TabularTransform } from './transforms/tabular.js';
 export { JourneyAnalyzer } from './transforms/journey.js';
+export { EventLogTransform } from './transforms/eventlog.js';
+export { PathTransform } from './transforms/path.js';
+export { ComparisonTransform } from './transforms/comparison.js';
+export { ColorMapper } from './transforms/color.js';
+export { OtherBucketer } from './transforms/bucket.js';
+export { DiagnosticsAnalyzer } from './transforms/diagnostics.js';
+export { GraphFilter } from './transforms/filter.js';
+export { GraphExporter } from './transforms/export.js';
 
 // Interactions (for advanced use)
 export { EventManager } from './interactions/events.js';
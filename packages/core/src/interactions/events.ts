@@ -2,9 +2,11 @@ import type {
   SankeyNode, SankeyLink, SankeyGraph, SankeyConfig,
   SankeyEventName, SankeyEventHandler, SankeyEvents,
 } from '../types/index.js';
+import { linkKey } from '../identity.js';
+import type { CanvasRenderer, CanvasHit } from '../render/canvas.js';
 
 /**
- * Manages mouse events on SVG nodes and links.
+ * Manages mouse events on SVG nodes and links, or on a canvas through hit testing.
  */
 export class EventManager {
   private listeners = new Map<SankeyEventName, Set<SankeyEventHandler<any>>>();
@@ -31,7 +33,7 @@ export class EventManager {
 
     const linkMap = new Map<string, SankeyLink>();
     for (const link of graph.links) {
-      linkMap.set(`${link.source.id}→${link.target.id}`, link);
+      linkMap.set(linkKey(link), link);
     }
 
     // Bind node events
@@ -69,6 +71,56 @@ export class EventManager {
     }
   }
 
+  /**
+   * Emit the same events for a canvas-rendered graph: pointer moves are
+   * hit-tested and turned into hover/leave pairs as the item under the
+   * pointer changes.
+   */
+  bindCanvas(graph: SankeyGraph, renderer: CanvasRenderer): void {
+    this.unbind();
+    this.graph = graph;
+    const canvas = renderer.getCanvas();
+    let current: CanvasHit = null;
+
+    const hitAt = (e: MouseEvent): CanvasHit => {
+      const rect = canvas.getBoundingClientRect();
+      return renderer.hitTest(e.clientX - rect.left, e.clientY - rect.top);
+    };
+    const leave = (e: MouseEvent) => {
+      if (current && 'node' in current) this.emit('node:leave', { node: current.node, event: e });
+      if (current && 'link' in current) this.emit('link:leave', { link: current.link, event: e });
+      current = null;
+    };
+
+    this.addListener(canvas, 'mousemove', (e) => {
+      const me = e as MouseEvent;
+      const hit = hitAt(me);
+      const same = hit && current && ('node' in hit
+        ? 'node' in current && current.node === hit.node
+        : 'link' in current && current.link === hit.link);
+      if (same) return;
+      leave(me);
+      current = hit;
+      if (hit && 'node' in hit) this.emit('node:hover', { node: hit.node, event: me });
+      if (hit && 'link' in hit) this.emit('link:hover', { link: hit.link, event: me });
+      canvas.style.cursor = !hit ? 'default' : 'node' in hit && this.config.draggable ? 'grab' : 'pointer';
+    });
+    this.addListener(canvas, 'mouseleave', (e) => leave(e as MouseEvent));
+    this.addListener(canvas, 'click', (e) => {
+      const me = e as MouseEvent;
+      const hit = hitAt(me);
+      if (hit && 'node' in hit) this.emit('node:click', { node: hit.node, event: me });
+      if (hit && 'link' in hit) this.emit('link:click', { link: hit.link, event: me });
+    });
+    if (this.config.draggable) {
+      this.addListener(canvas, 'mousedown', (e) => {
+        const me = e as MouseEvent;
+        const hit = hitAt(me);
+        if (hit && 'node' in hit) this.startDrag(me, hit.node, canvas);
+      });
+    }
+  }
+
   /** Remove all event listeners */
   unbind(): void {
     for (const { el, event, handler } of this.boundHandlers) {
@@ -103,38 +155,41 @@ export class EventManager {
     this.boundHandlers.push({ el, event, handler });
   }
 
+  /** Drag a node across the flow: vertically, or horizontally in vertical charts */
   private bindDrag(rect: SVGRectElement, node: SankeyNode): void {
-    let startY = 0;
-    let startNodeY = 0;
-    let dragging = false;
-
-    const onMouseDown = (e: Event) => {
-      const me = e as MouseEvent;
-      dragging = true;
-      startY = me.clientY;
-      startNodeY = node.y;
-      rect.style.cursor = 'grabbing';
-      document.addEventListener('mousemove', onMouseMove);
-      document.addEventListener('mouseup', onMouseUp);
-      me.preventDefault();
-    };
+    this.addListener(rect, 'mousedown', (e) => {
+      this.startDrag(e as MouseEvent, node, rect, () => {
+        const axis = this.config.orientation === 'vertical' ? 'x' : 'y';
+        rect.setAttribute(axis, String(node[axis]));
+      });
+    });
+  }
 
-    const onMouseMove = (e: Event) => {
-      if (!dragging) return;
-      const me = e as MouseEvent;
-      const dy = me.clientY - startY;
-      node.y = startNodeY + dy;
-      rect.setAttribute('y', String(node.y));
-      this.emit('node:drag', { node, dx: 0, dy });
+  /** Track a drag from mousedown to mouseup, moving `node` and emitting node:drag */
+  private startDrag(down: MouseEvent, node: SankeyNode, el: HTMLElement | SVGElement, onMove?: () => void): void {
+    const vertical = this.config.orientation === 'vertical';
+    const axis = vertical ? 'x' : 'y';
+    const start = vertical ? down.clientX : down.clientY;
+    const startNodePos = node[axis];
+
+    const onMouseMove = (e: MouseEvent) => {
+      const delta = (vertical ? e.clientX : e.clientY) - start;
+      node[axis] = startNodePos + delta;
+      onMove?.();
+      this.emit('node:drag', vertical
+        ? { node, dx: delta, dy: 0 }
+        : { node, dx: 0, dy: delta });
     };
 
     const onMouseUp = () => {
-      dragging = false;
-      rect.style.cursor = 'grab';
+      el.style.cursor = 'grab';
       document.removeEventListener('mousemove', onMouseMove);
       document.removeEventListener('mouseup', onMouseUp);
     };
 
-    this.addListener(rect, 'mousedown', onMouseDown);
+    el.style.cursor = 'grabbing';
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+    down.preventDefault();
   }
 }
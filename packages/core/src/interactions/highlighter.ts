@@ -1,13 +1,19 @@
 import type { SankeyNode, SankeyLink, SankeyConfig } from '../types/index.js';
+import { linkKey } from '../identity.js';
+import type { CanvasRenderer } from '../render/canvas.js';
+import { resolveTheme } from '../render/theme.js';
 
 /**
- * Handles path highlighting on hover with glow effects.
+ * Handles path highlighting on hover with glow effects, on the SVG elements
+ * or, while one is set, by redrawing a canvas renderer. How far the rest
+ * fades comes from the theme.
  */
 export class Highlighter {
   private linksGroup: SVGGElement;
   private nodesGroup: SVGGElement;
   private labelsGroup: SVGGElement | null;
   private config: SankeyConfig;
+  private canvas: CanvasRenderer | null = null;
 
   constructor(linksGroup: SVGGElement, nodesGroup: SVGGElement, config: SankeyConfig) {
     this.linksGroup = linksGroup;
@@ -16,6 +22,11 @@ export class Highlighter {
     this.config = config;
   }
 
+  /** Highlight on this canvas instead of the SVG elements; null switches back */
+  setCanvas(canvas: CanvasRenderer | null): void {
+    this.canvas = canvas;
+  }
+
   highlightNode(node: SankeyNode): void {
     if (this.config.highlightMode === 'none') return;
 
@@ -39,17 +50,33 @@ export class Highlighter {
     const connectedLinks = new Set<string>();
     const connectedNodes = new Set<string>();
 
-    connectedLinks.add(`${link.source.id}→${link.target.id}`);
+    connectedLinks.add(linkKey(link));
     connectedNodes.add(link.source.id);
     connectedNodes.add(link.target.id);
 
     this.applyHighlight(connectedLinks, connectedNodes);
   }
 
+  /** Highlight one journey, e.g. from `JourneyAnalyzer.topPaths`; applies whatever the hover mode */
+  highlightPath(links: SankeyLink[]): void {
+    const connectedLinks = new Set<string>();
+    const connectedNodes = new Set<string>();
+    for (const link of links) {
+      connectedLinks.add(linkKey(link));
+      connectedNodes.add(link.source.id);
+      connectedNodes.add(link.target.id);
+    }
+    this.applyHighlight(connectedLinks, connectedNodes);
+  }
+
   reset(): void {
+    if (this.canvas) {
+      this.canvas.highlight(null);
+      return;
+    }
     for (const path of Array.from(this.linksGroup.children)) {
       const el = path as SVGElement;
-      el.setAttribute('fill-opacity', String(this.config.linkOpacity));
+      this.setLinkOpacity(el, this.config.linkOpacity);
       el.removeAttribute('filter');
     }
     for (const rect of Array.from(this.nodesGroup.children)) {
@@ -66,7 +93,7 @@ export class Highlighter {
 
   private collectForward(node: SankeyNode, links: Set<string>, nodes: Set<string>): void {
     for (const link of node.sourceLinks) {
-      const id = `${link.source.id}→${link.target.id}`;
+      const id = linkKey(link);
       if (links.has(id)) continue;
       links.add(id);
       nodes.add(link.target.id);
@@ -76,7 +103,7 @@ export class Highlighter {
 
   private collectBackward(node: SankeyNode, links: Set<string>, nodes: Set<string>): void {
     for (const link of node.targetLinks) {
-      const id = `${link.source.id}→${link.target.id}`;
+      const id = linkKey(link);
       if (links.has(id)) continue;
       links.add(id);
       nodes.add(link.source.id);
@@ -85,14 +112,19 @@ export class Highlighter {
   }
 
   private applyHighlight(connectedLinks: Set<string>, connectedNodes: Set<string>): void {
+    if (this.canvas) {
+      this.canvas.highlight(connectedLinks, connectedNodes);
+      return;
+    }
+    const theme = resolveTheme(this.config.theme);
     for (const path of Array.from(this.linksGroup.children)) {
       const el = path as SVGElement;
       const linkId = el.getAttribute('data-link-id') || '';
       if (connectedLinks.has(linkId)) {
-        el.setAttribute('fill-opacity', String(this.config.linkHighlightOpacity));
+        this.setLinkOpacity(el, this.config.linkHighlightOpacity);
         el.setAttribute('filter', 'url(#sankey-link-glow)');
       } else {
-        el.setAttribute('fill-opacity', String(this.config.linkDimOpacity));
+        this.setLinkOpacity(el, this.config.linkDimOpacity);
         el.removeAttribute('filter');
       }
     }
@@ -104,7 +136,7 @@ export class Highlighter {
         el.setAttribute('opacity', '1');
         el.setAttribute('filter', 'url(#sankey-node-glow)');
       } else {
-        el.setAttribute('opacity', '0.2');
+        el.setAttribute('opacity', String(theme.nodeDimOpacity));
         el.setAttribute('filter', 'none');
       }
     }
@@ -113,8 +145,16 @@ export class Highlighter {
       for (const g of Array.from(this.labelsGroup.children)) {
         const texts = (g as Element).querySelectorAll('text');
         const nodeId = texts[0]?.getAttribute('data-node-id') || '';
-        (g as SVGElement).setAttribute('opacity', connectedNodes.has(nodeId) ? '1' : '0.12');
+        (g as SVGElement).setAttribute('opacity', connectedNodes.has(nodeId) ? '1' : String(theme.labelDimOpacity));
       }
     }
   }
+
+  /** Circular links carry a dashed outline that fades with the fill */
+  private setLinkOpacity(el: SVGElement, opacity: number): void {
+    el.setAttribute('fill-opacity', String(opacity));
+    if (el.hasAttribute('data-circular')) {
+      el.setAttribute('stroke-opacity', String(opacity));
+    }
+  }
 }
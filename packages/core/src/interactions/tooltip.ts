@@ -1,7 +1,12 @@
-import type { SankeyNode, SankeyLink, SankeyConfig } from '../types/index.js';
+import type { SankeyNode, SankeyLink, SankeyConfig, ComparisonValues, JourneyMetrics } from '../types/index.js';
+import { resolveTheme } from '../render/theme.js';
+
+/** Members of an "Other" node listed in its tooltip */
+const MAX_LISTED_MEMBERS = 5;
 
 /**
- * Premium frosted-glass tooltip with color swatches and formatted data.
+ * Premium frosted-glass tooltip with color swatches and formatted data,
+ * its surface and text colors taken from the theme.
  */
 export class TooltipManager {
   private tooltip: HTMLDivElement;
@@ -14,16 +19,9 @@ export class TooltipManager {
     Object.assign(this.tooltip.style, {
       position: 'absolute',
       pointerEvents: 'none',
-      background: 'rgba(15, 15, 30, 0.88)',
-      backdropFilter: 'blur(12px)',
-      WebkitBackdropFilter: 'blur(12px)',
-      color: '#f0f0f5',
       padding: '10px 14px',
       borderRadius: '8px',
-      border: '1px solid rgba(255,255,255,0.12)',
-      boxShadow: '0 8px 32px rgba(0,0,0,0.28), 0 2px 8px rgba(0,0,0,0.15)',
       fontSize: '13px',
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
       lineHeight: '1.5',
       maxWidth: '280px',
       zIndex: '10000',
@@ -32,11 +30,13 @@ export class TooltipManager {
       transition: 'opacity 0.2s ease, transform 0.2s ease',
       whiteSpace: 'nowrap',
     });
+    this.applyTheme();
     container.style.position = 'relative';
     container.appendChild(this.tooltip);
   }
 
-  showNode(node: SankeyNode, event: MouseEvent): void {
+  /** Goal reach and attribution are listed when `metrics` carries them */
+  showNode(node: SankeyNode, event: MouseEvent, metrics?: JourneyMetrics): void {
     if (!this.config.tooltips) return;
 
     if (this.config.nodeTooltip) {
@@ -44,6 +44,7 @@ export class TooltipManager {
       return;
     }
 
+    const theme = resolveTheme(this.config.theme);
     const inflow = node.targetLinks.reduce((s, l) => s + l.value, 0);
     const outflow = node.sourceLinks.reduce((s, l) => s + l.value, 0);
     const isSource = node.targetLinks.length === 0;
@@ -54,8 +55,8 @@ export class TooltipManager {
     html += `<strong style="font-size:14px;">${this.escapeHtml(node.label)}</strong>`;
     html += `</div>`;
 
-    html += `<div style="color:#aab;font-size:12px;">`;
-    html += `<div>Total: <span style="color:#fff;font-weight:600;">${this.formatNumber(node.value)}</span></div>`;
+    html += `<div style="color:${theme.tooltipMutedColor};font-size:12px;">`;
+    html += `<div>Total: <span style="color:${theme.tooltipEmphasisColor};font-weight:600;">${this.formatNumber(node.value)}</span></div>`;
 
     if (!isSource) {
       html += `<div>Inflow: ${this.formatNumber(inflow)}</div>`;
@@ -65,10 +66,33 @@ export class TooltipManager {
     }
     if (!isSource && !isSink && inflow > 0) {
       const dropPct = ((inflow - outflow) / inflow * 100).toFixed(1);
-      html += `<div style="color:${Number(dropPct) > 50 ? '#ff7b7b' : '#7bdfff'};">Drop-off: ${dropPct}%</div>`;
+      html += `<div style="color:${Number(dropPct) > 50 ? theme.negativeColor : theme.accentColor};">Drop-off: ${dropPct}%</div>`;
+    }
+    if (node.comparison) html += this.formatComparison(node.comparison);
+    if (node.sourceLinks.some(l => l.values) || node.targetLinks.some(l => l.values)) {
+      html += this.formatMeasures(this.nodeMeasures(node));
+    }
+    if (metrics?.goalRate !== undefined) {
+      html += `<div style="color:${theme.accentColor};">Reaches goal: ${(metrics.goalRate * 100).toFixed(1)}%</div>`;
+      if (metrics.firstTouch) html += `<div>First-touch goals: ${this.formatNumber(Math.round(metrics.firstTouch))}</div>`;
+      if (metrics.lastTouch) html += `<div>Last-touch goals: ${this.formatNumber(Math.round(metrics.lastTouch))}</div>`;
     }
     html += `</div>`;
 
+    // Merged "Other" node: list its largest members
+    const members = node.meta?.isOther ? node.meta.members as SankeyNode[] : null;
+    if (members) {
+      html += `<div style="color:${theme.tooltipMutedColor};font-size:12px;margin-top:4px;border-top:1px solid ${theme.tooltipBorder};padding-top:4px;">`;
+      html += `<div>${members.length} merged:</div>`;
+      for (const member of members.slice(0, MAX_LISTED_MEMBERS)) {
+        html += `<div>${this.escapeHtml(member.label)} <span style="color:${theme.tooltipEmphasisColor};">${this.formatNumber(member.value)}</span></div>`;
+      }
+      if (members.length > MAX_LISTED_MEMBERS) {
+        html += `<div>+${members.length - MAX_LISTED_MEMBERS} more</div>`;
+      }
+      html += `</div>`;
+    }
+
     this.show(html, event);
   }
 
@@ -80,19 +104,33 @@ export class TooltipManager {
       return;
     }
 
+    const theme = resolveTheme(this.config.theme);
     let html = `<div style="display:flex;align-items:center;gap:6px;margin-bottom:4px;">`;
     html += `<span style="display:inline-block;width:8px;height:8px;border-radius:2px;background:${this.escapeHtml(link.source.color || '#888')};"></span>`;
-    html += `<span style="color:#aab;">\u2192</span>`;
+    html += `<span style="color:${theme.tooltipMutedColor};">\u2192</span>`;
     html += `<span style="display:inline-block;width:8px;height:8px;border-radius:2px;background:${this.escapeHtml(link.target.color || '#888')};"></span>`;
     html += `</div>`;
     html += `<strong>${this.escapeHtml(link.source.label)} \u2192 ${this.escapeHtml(link.target.label)}</strong><br/>`;
-    html += `<span style="color:#aab;font-size:12px;">Flow: </span><span style="font-weight:600;">${this.formatNumber(link.value)}</span>`;
+    html += `<span style="color:${theme.tooltipMutedColor};font-size:12px;">Flow: </span><span style="font-weight:600;">${this.formatNumber(link.value)}</span>`;
 
     // Show percentage of source
     const sourceTotal = link.source.sourceLinks.reduce((s, l) => s + l.value, 0);
     if (sourceTotal > 0) {
       const pct = ((link.value / sourceTotal) * 100).toFixed(1);
-      html += `<span style="color:#aab;font-size:12px;"> (${pct}% of ${this.escapeHtml(link.source.label)})</span>`;
+      html += `<span style="color:${theme.tooltipMutedColor};font-size:12px;"> (${pct}% of ${this.escapeHtml(link.source.label)})</span>`;
+    }
+    if (link.category) {
+      const field = typeof this.config.linkColor === 'object' ? this.config.linkColor.field : 'category';
+      html += `<div style="color:${theme.tooltipMutedColor};font-size:12px;">${this.escapeHtml(field)}: ${this.escapeHtml(link.category)}</div>`;
+    }
+    if (link.values) {
+      html += `<div style="color:${theme.tooltipMutedColor};font-size:12px;">${this.formatMeasures(link.values)}</div>`;
+    }
+    if (link.comparison) {
+      html += `<div style="color:${theme.tooltipMutedColor};font-size:12px;">${this.formatComparison(link.comparison)}</div>`;
+    }
+    if (link.circular) {
+      html += `<div style="color:${theme.tooltipMutedColor};font-size:12px;">\u21ba Loops back to an earlier step</div>`;
     }
 
     this.show(html, event);
@@ -107,7 +145,22 @@ export class TooltipManager {
     this.tooltip.remove();
   }
 
+  /** Surface, text and font from the current theme */
+  private applyTheme(): void {
+    const theme = resolveTheme(this.config.theme);
+    Object.assign(this.tooltip.style, {
+      background: theme.tooltipBackground,
+      backdropFilter: theme.tooltipBackdrop,
+      WebkitBackdropFilter: theme.tooltipBackdrop,
+      color: theme.tooltipColor,
+      border: `1px solid ${theme.tooltipBorder}`,
+      boxShadow: theme.tooltipShadow,
+      fontFamily: theme.fontFamily,
+    });
+  }
+
   private show(html: string, event: MouseEvent): void {
+    this.applyTheme();
     this.tooltip.innerHTML = html;
     this.tooltip.style.opacity = '1';
     this.tooltip.style.transform = 'translateY(0)';
@@ -138,6 +191,47 @@ export class TooltipManager {
       .replace(/"/g, '&quot;');
   }
 
+  /** Node total per measure, the larger of its inflow and outflow like `node.value` */
+  private nodeMeasures(node: SankeyNode): Record<string, number> {
+    const sum = (links: SankeyLink[]) => {
+      const totals: Record<string, number> = {};
+      for (const link of links) {
+        for (const [measure, value] of Object.entries(link.values ?? {})) {
+          totals[measure] = (totals[measure] ?? 0) + value;
+        }
+      }
+      return totals;
+    };
+    const inflow = sum(node.targetLinks);
+    const outflow = sum(node.sourceLinks);
+    const totals: Record<string, number> = {};
+    for (const measure of new Set([...Object.keys(inflow), ...Object.keys(outflow)])) {
+      totals[measure] = Math.max(inflow[measure] ?? 0, outflow[measure] ?? 0);
+    }
+    return totals;
+  }
+
+  /** One line per measure, e.g. "revenue: 1,200" */
+  private formatMeasures(values: Record<string, number>): string {
+    const theme = resolveTheme(this.config.theme);
+    let html = `<div style="margin-top:4px;border-top:1px solid ${theme.tooltipBorder};padding-top:4px;">`;
+    for (const [measure, value] of Object.entries(values)) {
+      html += `<div>${this.escapeHtml(measure)}: <span style="color:${theme.tooltipEmphasisColor};">${this.formatNumber(value)}</span></div>`;
+    }
+    return html + `</div>`;
+  }
+
+  /** Baseline value and the change from it, e.g. "Change: +120 (+15.0%)" */
+  private formatComparison(comparison: ComparisonValues): string {
+    const { baseline, delta, change } = comparison;
+    const theme = resolveTheme(this.config.theme);
+    const sign = delta > 0 ? '+' : '';
+    const pct = change === null ? 'new' : `${sign}${(change * 100).toFixed(1)}%`;
+    const color = delta > 0 ? theme.positiveColor : delta < 0 ? theme.negativeColor : theme.tooltipMutedColor;
+    return `<div>Baseline: ${this.formatNumber(baseline)}</div>` +
+      `<div style="color:${color};">Change: ${sign}${this.formatNumber(delta)} (${pct})</div>`;
+  }
+
   private formatNumber(n: number): string {
     return n.toLocaleString();
   }
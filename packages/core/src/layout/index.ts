@@ -1,2 +1,4 @@
 export { SankeyLayout } from './sankey.js';
 export { PathGenerator } from './path.js';
+export { toLayoutRequest, fromLayoutRequest, toLayoutResult, applyLayoutResult } from './transfer.js';
+export type { LayoutRequest, LayoutResult } from './transfer.js';
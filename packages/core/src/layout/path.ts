@@ -1,21 +1,27 @@
-import type { SankeyLink } from '../types/index.js';
+import type { SankeyLink, SankeyNode, Orientation } from '../types/index.js';
 
 /**
  * Generates SVG path data for Sankey links.
  * Uses filled area paths (not stroked center lines) for a more organic, fluid look.
+ *
+ * Paths are built in a left-to-right frame (x along the flow, y across it)
+ * and transposed on output when the chart is vertical.
  */
 export class PathGenerator {
   /**
    * Generate a filled area path for a link — two cubic beziers forming a ribbon.
    * This creates the "flowing water" look instead of a stroked line.
    */
-  static linkArea(link: SankeyLink): string {
-    const sourceX = link.source.x + link.source.width;
-    const targetX = link.target.x;
+  static linkArea(link: SankeyLink, orientation: Orientation = 'horizontal'): string {
+    if (link.circular) return PathGenerator.circularArea(link, orientation);
 
-    const sy0 = link.source.y + link.sy;
+    const f = frame(orientation);
+    const sourceX = f.end(link.source);
+    const targetX = f.start(link.target);
+
+    const sy0 = f.cross(link.source) + link.sy;
     const sy1 = sy0 + link.width;
-    const ty0 = link.target.y + link.ty;
+    const ty0 = f.cross(link.target) + link.ty;
     const ty1 = ty0 + link.width;
 
     const midX = (sourceX + targetX) / 2;
@@ -23,26 +29,136 @@ export class PathGenerator {
     // Top edge: source top → target top
     // Bottom edge: target bottom → source bottom (reversed)
     return (
-      `M${sourceX},${sy0}` +
-      `C${midX},${sy0} ${midX},${ty0} ${targetX},${ty0}` +
-      `L${targetX},${ty1}` +
-      `C${midX},${ty1} ${midX},${sy1} ${sourceX},${sy1}` +
+      `M${f.pt(sourceX, sy0)}` +
+      `C${f.pt(midX, sy0)} ${f.pt(midX, ty0)} ${f.pt(targetX, ty0)}` +
+      `L${f.pt(targetX, ty1)}` +
+      `C${f.pt(midX, ty1)} ${f.pt(midX, sy1)} ${f.pt(sourceX, sy1)}` +
       `Z`
     );
   }
 
+  /**
+   * Ribbon for a circular (back) link: leaves the source to the right, runs
+   * round the top or bottom of the chart and enters the target from the left.
+   */
+  static circularArea(link: SankeyLink, orientation: Orientation = 'horizontal'): string {
+    const f = frame(orientation);
+    const w = link.width;
+    const gap = link.circularGap ?? 0;
+    const loopY = link.circularY ?? 0;
+    const top = link.circularSide !== 'bottom';
+
+    const sourceX = f.end(link.source);
+    const targetX = f.start(link.target);
+    const sy0 = f.cross(link.source) + link.sy;
+    const ty0 = f.cross(link.target) + link.ty;
+
+    // The edge nearest the loop's channel is the outer edge of the ribbon
+    const sOuter = top ? sy0 : sy0 + w;
+    const sInner = top ? sy0 + w : sy0;
+    const tOuter = top ? ty0 : ty0 + w;
+    const tInner = top ? ty0 + w : ty0;
+    const innerY = top ? loopY + w : loopY - w;
+
+    const outer: Point[] = [
+      [sourceX, sOuter],
+      [sourceX + gap + w, sOuter],
+      [sourceX + gap + w, loopY],
+      [targetX - gap - w, loopY],
+      [targetX - gap - w, tOuter],
+      [targetX, tOuter],
+    ];
+    const inner: Point[] = [
+      [targetX, tInner],
+      [targetX - gap, tInner],
+      [targetX - gap, innerY],
+      [sourceX + gap, innerY],
+      [sourceX + gap, sInner],
+      [sourceX, sInner],
+    ];
+
+    return (
+      roundedPolyline(outer, gap + w, 'M', f.pt) +
+      roundedPolyline(inner, gap, 'L', f.pt) +
+      'Z'
+    );
+  }
+
   /** Legacy center-line path (kept for stroke-based fallback) */
-  static linkPath(link: SankeyLink): string {
-    const sourceX = link.source.x + link.source.width;
-    const sourceY = link.source.y + link.sy + link.width / 2;
-    const targetX = link.target.x;
-    const targetY = link.target.y + link.ty + link.width / 2;
+  static linkPath(link: SankeyLink, orientation: Orientation = 'horizontal'): string {
+    const f = frame(orientation);
+    const sourceX = f.end(link.source);
+    const sourceY = f.cross(link.source) + link.sy + link.width / 2;
+    const targetX = f.start(link.target);
+    const targetY = f.cross(link.target) + link.ty + link.width / 2;
 
     const midX = (sourceX + targetX) / 2;
 
     return (
-      `M${sourceX},${sourceY}` +
-      `C${midX},${sourceY} ${midX},${targetY} ${targetX},${targetY}`
+      `M${f.pt(sourceX, sourceY)}` +
+      `C${f.pt(midX, sourceY)} ${f.pt(midX, targetY)} ${f.pt(targetX, targetY)}`
     );
   }
 }
+
+type Point = [number, number];
+
+interface Frame {
+  /** Where a node starts along the flow */
+  start(node: SankeyNode): number;
+  /** Where a node ends along the flow */
+  end(node: SankeyNode): number;
+  /** Where a node starts across the flow */
+  cross(node: SankeyNode): number;
+  /** Format a (flow, cross) point as SVG "x,y" */
+  pt(flow: number, cross: number): string;
+}
+
+const HORIZONTAL: Frame = {
+  start: n => n.x,
+  end: n => n.x + n.width,
+  cross: n => n.y,
+  pt: (flow, cross) => `${flow},${cross}`,
+};
+
+const VERTICAL: Frame = {
+  start: n => n.y,
+  end: n => n.y + n.height,
+  cross: n => n.x,
+  pt: (flow, cross) => `${cross},${flow}`,
+};
+
+function frame(orientation: Orientation): Frame {
+  return orientation === 'vertical' ? VERTICAL : HORIZONTAL;
+}
+
+/** Polyline through the given points with each interior corner rounded off */
+function roundedPolyline(
+  points: Point[],
+  radius: number,
+  command: 'M' | 'L',
+  pt: Frame['pt'],
+): string {
+  let d = `${command}${pt(points[0][0], points[0][1])}`;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = points[i - 1];
+    const [cx, cy] = points[i];
+    const [nx, ny] = points[i + 1];
+    const inLen = Math.hypot(cx - px, cy - py);
+    const outLen = Math.hypot(nx - cx, ny - cy);
+    const r = Math.min(radius, inLen / 2, outLen / 2);
+    if (r <= 0) {
+      d += `L${pt(cx, cy)}`;
+      continue;
+    }
+    const ax = cx + ((px - cx) / inLen) * r;
+    const ay = cy + ((py - cy) / inLen) * r;
+    const bx = cx + ((nx - cx) / outLen) * r;
+    const by = cy + ((ny - cy) / outLen) * r;
+    d += `L${pt(ax, ay)}Q${pt(cx, cy)} ${pt(bx, by)}`;
+  }
+
+  const [lx, ly] = points[points.length - 1];
+  return d + `L${pt(lx, ly)}`;
+}
@@ -1,17 +1,52 @@
-import type { SankeyNode, SankeyLink, SankeyGraph, SankeyConfig } from '../types/index.js';
+import type {
+  SankeyNode, SankeyLink, SankeyGraph, SankeyConfig, Padding, LayoutQuality,
+} from '../types/index.js';
+import { toLayoutRequest, applyLayoutResult } from './transfer.js';
+import type { LayoutResult } from './transfer.js';
+
+/** Alternating left-to-right / right-to-left passes of the ordering phase */
+const ORDER_SWEEPS = 12;
+/** Steps when shrinking the value scale to fit minimum thicknesses */
+const SCALE_BISECTIONS = 30;
 
 /**
  * Sankey layout algorithm — from scratch, zero dependencies.
  *
  * Steps:
- * 1. Compute node depths via BFS from sources
- * 2. Compute node values (max of in/out link sums)
- * 3. Position nodes horizontally by depth
- * 4. Position nodes vertically using initial ordering + iterative relaxation
- * 5. Compute link vertical offsets at source and target
+ * 1. Detect back-links that close cycles (they are drawn as loops)
+ * 2. Compute node depths (columns) from path lengths and the alignment strategy,
+ *    then apply any pinned columns
+ * 3. Compute node values (max of in/out link sums)
+ * 4. Position nodes horizontally by depth
+ * 5. Order nodes within columns to minimise crossings (barycenter/median sweeps)
+ * 6. Position nodes vertically from that ordering + iterative relaxation,
+ *    reserving room above/below the nodes for loops when there are any
+ * 7. Compute link vertical offsets at source and target, and loop lanes
+ *
+ * Everything is computed left-to-right. For vertical orientation the chart is
+ * laid out in a transposed frame and the node rectangles are flipped at the
+ * end, so x/width become the cross axis and y/height the flow axis.
+ *
+ * Columns and the non-circular adjacency lists are indexed once per compute,
+ * so each relaxation iteration is linear in nodes + links. `computeAsync`
+ * runs the same layout in a Web Worker when `layoutWorker` is configured.
  */
 export class SankeyLayout {
   private config: SankeyConfig;
+  /** Non-circular links in/out of each node, rebuilt when circular flags change */
+  private inLinks = new Map<SankeyNode, SankeyLink[]>();
+  private outLinks = new Map<SankeyNode, SankeyLink[]>();
+  /** Columns whose order comes from order hints rather than positions */
+  private fixedColumns = new Set<SankeyNode[]>();
+  private worker: Worker | null = null;
+  private pending = new Map<number, { resolve: (result: LayoutResult) => void; reject: (err: unknown) => void }>();
+  private requestId = 0;
+  /** Chart dimensions in the left-to-right layout frame */
+  private frame: { width: number; height: number; padding: Padding } = {
+    width: 0, height: 0, padding: { top: 0, right: 0, bottom: 0, left: 0 },
+  };
+  /** Vertical band available to nodes (shrinks to make room for loops) */
+  private extent = { top: 0, bottom: 0 };
 
   constructor(config: SankeyConfig) {
     this.config = config;
@@ -21,62 +56,405 @@ export class SankeyLayout {
     const { nodes, links } = graph;
     if (nodes.length === 0) return graph;
 
+    this.frame = this.layoutFrame();
+    const { padding, height } = this.frame;
+    this.extent = { top: padding.top, bottom: height - padding.bottom };
+
+    this.detectCircularLinks(nodes, links);
+    this.indexLinks(nodes);
     this.computeDepths(nodes);
     this.computeNodeValues(nodes);
     this.positionNodesX(nodes);
-    this.initializeNodeY(nodes);
-    this.relaxNodePositions(nodes);
+    const columns = this.orderNodes(this.getColumns(nodes));
+    this.fixedColumns = new Set(columns.filter(hasOrderHints));
+    this.initializeNodeY(columns);
+    this.relaxNodePositions(columns);
+
+    const circular = links.filter(l => l.circular);
+    if (circular.length > 0) {
+      // Loops need to know which side they go round before space can be
+      // reserved for them, so lay out once, pick sides, then lay out again.
+      this.assignCircularSides(circular);
+      this.reserveCircularSpace(circular);
+      this.initializeNodeY(columns);
+      this.relaxNodePositions(columns);
+    }
+
     this.computeLinkOffsets(nodes);
+    this.computeCircularLanes(circular);
+
+    if (this.config.orientation === 'vertical') {
+      for (const node of nodes) {
+        [node.x, node.y] = [node.y, node.x];
+        [node.width, node.height] = [node.height, node.width];
+      }
+    }
 
     return graph;
   }
 
-  /** BFS from source nodes to compute depth */
+  /**
+   * Only the first layout stages: mark circular links and assign each node
+   * its column (`depth`) and `value`. Used to bucket small nodes per column
+   * before the full layout.
+   */
+  assignColumns(graph: SankeyGraph): SankeyGraph {
+    this.detectCircularLinks(graph.nodes, graph.links);
+    this.indexLinks(graph.nodes);
+    this.computeDepths(graph.nodes);
+    this.computeNodeValues(graph.nodes);
+    return graph;
+  }
+
+  /**
+   * Lay out the graph in a Web Worker and copy the positions back onto it.
+   * Falls back to the synchronous layout when no `layoutWorker` is
+   * configured, Workers are unavailable (e.g. blocked by CSP) or the worker
+   * fails.
+   */
+  async computeAsync(graph: SankeyGraph): Promise<SankeyGraph> {
+    if (graph.nodes.length === 0) return graph;
+    const worker = this.getWorker();
+    if (!worker) return this.compute(graph);
+
+    const request = toLayoutRequest(graph, this.config, ++this.requestId);
+    try {
+      const result = await new Promise<LayoutResult>((resolve, reject) => {
+        this.pending.set(request.id, { resolve, reject });
+        worker.postMessage(request);
+      });
+      applyLayoutResult(graph, result);
+      return graph;
+    } catch {
+      this.dispose();
+      return this.compute(graph);
+    }
+  }
+
+  /** Terminate the layout worker, if one was started */
+  dispose(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    for (const { reject } of this.pending.values()) reject(new Error('Layout worker disposed'));
+    this.pending.clear();
+  }
+
+  /**
+   * Measure a laid-out graph. Counts pairs of links whose center lines cross,
+   * sums link length weighted by value and sums the overlap between nodes in
+   * the same column. Lower is better for all three.
+   */
+  quality(graph: SankeyGraph): LayoutQuality {
+    const vertical = this.config.orientation === 'vertical';
+    const start = (n: SankeyNode) => (vertical ? n.y : n.x);
+    const end = (n: SankeyNode) => (vertical ? n.y + n.height : n.x + n.width);
+    const cross = (n: SankeyNode) => (vertical ? n.x : n.y);
+    const size = (n: SankeyNode) => (vertical ? n.width : n.height);
+
+    // Center line of each regular ribbon, in the left-to-right frame
+    const lines = graph.links.filter(l => !l.circular).map(l => ({
+      x0: end(l.source),
+      x1: start(l.target),
+      y0: cross(l.source) + l.sy + l.width / 2,
+      y1: cross(l.target) + l.ty + l.width / 2,
+    }));
+
+    let crossings = 0;
+    for (let i = 0; i < lines.length; i++) {
+      for (let j = i + 1; j < lines.length; j++) {
+        const a = lines[i];
+        const b = lines[j];
+        const from = Math.max(a.x0, b.x0);
+        const to = Math.min(a.x1, b.x1);
+        if (to <= from) continue;
+        const before = centerLineY(a, from) - centerLineY(b, from);
+        const after = centerLineY(a, to) - centerLineY(b, to);
+        if (before * after < 0) crossings++;
+      }
+    }
+
+    let weightedLinkLength = 0;
+    for (const link of graph.links) {
+      const x0 = end(link.source);
+      const x1 = start(link.target);
+      const y0 = cross(link.source) + link.sy + link.width / 2;
+      const y1 = cross(link.target) + link.ty + link.width / 2;
+      let length: number;
+      if (link.circular) {
+        // Out past the source, along the loop channel and back in to the target
+        const reach = (link.circularGap ?? 0) + link.width;
+        const loopY = (link.circularY ?? 0) + (link.circularSide === 'bottom' ? -1 : 1) * link.width / 2;
+        length = 4 * reach + Math.abs(x0 - x1) + Math.abs(y0 - loopY) + Math.abs(y1 - loopY);
+      } else {
+        length = Math.hypot(x1 - x0, y1 - y0);
+      }
+      weightedLinkLength += link.value * length;
+    }
+
+    let overlap = 0;
+    for (const column of this.getColumns(graph.nodes)) {
+      const sorted = [...column].sort((a, b) => cross(a) - cross(b));
+      for (let i = 0; i < sorted.length; i++) {
+        const bottom = cross(sorted[i]) + size(sorted[i]);
+        for (let j = i + 1; j < sorted.length && cross(sorted[j]) < bottom; j++) {
+          overlap += Math.min(bottom, cross(sorted[j]) + size(sorted[j])) - cross(sorted[j]);
+        }
+      }
+    }
+
+    return { crossings, weightedLinkLength, overlap };
+  }
+
+  /** Lazily start the layout worker; null when unavailable */
+  private getWorker(): Worker | null {
+    const url = this.config.layoutWorker;
+    if (!url || typeof Worker === 'undefined') return null;
+    if (this.worker) return this.worker;
+
+    try {
+      this.worker = new Worker(url);
+    } catch {
+      return null;
+    }
+    this.worker.onmessage = (e: MessageEvent<LayoutResult>) => {
+      const entry = this.pending.get(e.data.id);
+      if (!entry) return;
+      this.pending.delete(e.data.id);
+      entry.resolve(e.data);
+    };
+    this.worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      for (const { reject } of this.pending.values()) reject(e);
+      this.pending.clear();
+    };
+    return this.worker;
+  }
+
+  /** Chart size and padding as seen by a left-to-right layout */
+  private layoutFrame(): { width: number; height: number; padding: Padding } {
+    const { width, height, padding, orientation } = this.config;
+    if (orientation !== 'vertical') return { width, height, padding };
+    return {
+      width: height,
+      height: width,
+      padding: { top: padding.left, right: padding.bottom, bottom: padding.right, left: padding.top },
+    };
+  }
+
+  /**
+   * Depth-first search from the sources; any link pointing back to a node
+   * still on the DFS stack closes a cycle and is marked circular. Self-links
+   * are always circular. All other links form a DAG used for the layout.
+   */
+  private detectCircularLinks(nodes: SankeyNode[], links: SankeyLink[]): void {
+    for (const link of links) {
+      link.circular = false;
+      link.circularSide = undefined;
+      link.circularY = undefined;
+      link.circularGap = undefined;
+    }
+
+    const state = new Map<SankeyNode, 'active' | 'done'>();
+    const roots = [
+      ...nodes.filter(n => n.targetLinks.length === 0),
+      ...nodes.filter(n => n.targetLinks.length > 0),
+    ];
+
+    for (const root of roots) {
+      if (state.has(root)) continue;
+      // Iterative DFS: each frame remembers which outgoing link is next
+      const stack: Array<{ node: SankeyNode; next: number }> = [{ node: root, next: 0 }];
+      state.set(root, 'active');
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        if (frame.next >= frame.node.sourceLinks.length) {
+          state.set(frame.node, 'done');
+          stack.pop();
+          continue;
+        }
+        const link = frame.node.sourceLinks[frame.next++];
+        const targetState = state.get(link.target);
+        if (targetState === 'active') {
+          link.circular = true;
+        } else if (targetState === undefined) {
+          state.set(link.target, 'active');
+          stack.push({ node: link.target, next: 0 });
+        }
+      }
+    }
+  }
+
+  /** Cache each node's non-circular links for the rest of the layout */
+  private indexLinks(nodes: SankeyNode[]): void {
+    this.inLinks.clear();
+    this.outLinks.clear();
+    for (const node of nodes) {
+      this.inLinks.set(node, node.targetLinks.filter(l => !l.circular));
+      this.outLinks.set(node, node.sourceLinks.filter(l => !l.circular));
+    }
+  }
+
+  /** Incoming links that take part in the left-to-right layout */
+  private incoming(node: SankeyNode): SankeyLink[] {
+    return this.inLinks.get(node) ?? [];
+  }
+
+  /** Outgoing links that take part in the left-to-right layout */
+  private outgoing(node: SankeyNode): SankeyLink[] {
+    return this.outLinks.get(node) ?? [];
+  }
+
+  /**
+   * Assign each node a column according to `nodeAlign`:
+   * - left:    longest path from the sources
+   * - right:   longest path to the sinks, counted back from the last column
+   * - justify: like left, but sinks are pushed to the last column
+   * - center:  pass-through nodes sit midway between their inputs and outputs,
+   *            sources and sinks hug their nearest neighbour
+   */
   private computeDepths(nodes: SankeyNode[]): void {
-    // Find source nodes (no incoming links)
-    const sources = nodes.filter(n => n.targetLinks.length === 0);
-    if (sources.length === 0) {
-      // Circular graph fallback: assign all to depth 0
-      nodes.forEach(n => (n.depth = 0));
-      return;
-    }
-
-    const visited = new Set<string>();
-    let current = sources;
-    let depth = 0;
-
-    while (current.length > 0) {
-      const next: SankeyNode[] = [];
-      for (const node of current) {
-        if (visited.has(node.id)) continue;
-        visited.add(node.id);
-        node.depth = depth;
-        for (const link of node.sourceLinks) {
-          if (!visited.has(link.target.id)) {
-            next.push(link.target);
-          }
+    const { distance: fromSources, order } = this.longestPaths(nodes, 'forward');
+    const { distance: toSinks } = this.longestPaths(nodes, 'backward');
+    let maxDepth = 0;
+    for (const d of fromSources.values()) if (d > maxDepth) maxDepth = d;
+
+    switch (this.config.nodeAlign) {
+      case 'left':
+        for (const node of nodes) node.depth = fromSources.get(node)!;
+        break;
+      case 'right':
+        for (const node of nodes) node.depth = maxDepth - toSinks.get(node)!;
+        break;
+      case 'center':
+        this.alignCenter(nodes, fromSources, toSinks, maxDepth);
+        break;
+      case 'justify':
+      default:
+        for (const node of nodes) {
+          node.depth = this.outgoing(node).length === 0 ? maxDepth : fromSources.get(node)!;
         }
+        break;
+    }
+
+    if (nodes.some(n => n.column !== undefined)) {
+      this.applyColumnHints(nodes, order);
+    }
+  }
+
+  /**
+   * Pinned nodes take their requested column. Unpinned nodes are pushed right
+   * past any input that now sits at or after them, and unpinned sources are
+   * pulled left in front of their outputs. Links the pins still force
+   * backwards are drawn as loops.
+   */
+  private applyColumnHints(nodes: SankeyNode[], topological: SankeyNode[]): void {
+    for (const node of topological) {
+      if (node.column !== undefined) {
+        node.depth = Math.max(0, Math.floor(node.column));
+        continue;
+      }
+      for (const link of this.incoming(node)) {
+        node.depth = Math.max(node.depth, link.source.depth + 1);
       }
-      current = next;
-      depth++;
     }
 
-    // Handle unvisited nodes (disconnected components)
     for (const node of nodes) {
-      if (!visited.has(node.id)) {
-        node.depth = 0;
+      if (node.column !== undefined || this.incoming(node).length > 0) continue;
+      for (const link of this.outgoing(node)) {
+        node.depth = Math.max(0, Math.min(node.depth, link.target.depth - 1));
       }
     }
 
-    // For 'justify' alignment, push sink nodes to the rightmost column
-    if (this.config.nodeAlign === 'justify') {
-      const maxDepth = Math.max(...nodes.map(n => n.depth));
-      for (const node of nodes) {
-        if (node.sourceLinks.length === 0 && node.depth < maxDepth) {
-          node.depth = maxDepth;
+    let changed = false;
+    for (const node of nodes) {
+      for (const link of this.outgoing(node)) {
+        if (link.target.depth <= link.source.depth) {
+          link.circular = true;
+          changed = true;
         }
       }
     }
+    if (changed) this.indexLinks(nodes);
+  }
+
+  /**
+   * Longest path length (in links) from the sources ('forward') or to the
+   * sinks ('backward') for every node, following non-circular links only.
+   * Kahn's algorithm, so linear in nodes + links; also returns the
+   * topological order it visited the nodes in.
+   */
+  private longestPaths(
+    nodes: SankeyNode[],
+    direction: 'forward' | 'backward',
+  ): { distance: Map<SankeyNode, number>; order: SankeyNode[] } {
+    const forward = direction === 'forward';
+    const upstream = (n: SankeyNode) => (forward ? this.incoming(n) : this.outgoing(n));
+    const downstream = (n: SankeyNode) => (forward ? this.outgoing(n) : this.incoming(n));
+
+    const distance = new Map<SankeyNode, number>();
+    const remaining = new Map<SankeyNode, number>();
+    const order: SankeyNode[] = [];
+    for (const node of nodes) {
+      remaining.set(node, upstream(node).length);
+      distance.set(node, 0);
+      if (upstream(node).length === 0) order.push(node);
+    }
+
+    for (let i = 0; i < order.length; i++) {
+      const node = order[i];
+      const d = distance.get(node)! + 1;
+      for (const link of downstream(node)) {
+        const next = forward ? link.target : link.source;
+        if (d > distance.get(next)!) distance.set(next, d);
+        const left = remaining.get(next)! - 1;
+        remaining.set(next, left);
+        if (left === 0) order.push(next);
+      }
+    }
+    return { distance, order };
+  }
+
+  /**
+   * Center alignment. Pass-through nodes take the middle of the columns they
+   * could legally occupy; sinks then sit right after their latest input and
+   * sources right before their earliest output.
+   */
+  private alignCenter(
+    nodes: SankeyNode[],
+    fromSources: Map<SankeyNode, number>,
+    toSinks: Map<SankeyNode, number>,
+    maxDepth: number,
+  ): void {
+    const isPassThrough = (n: SankeyNode) => this.outgoing(n).length > 0 && this.incoming(n).length > 0;
+
+    for (const node of nodes) {
+      if (!isPassThrough(node)) continue;
+      const earliest = fromSources.get(node)!;
+      const latest = maxDepth - toSinks.get(node)!;
+      node.depth = Math.floor((earliest + latest) / 2);
+    }
+
+    for (const node of nodes) {
+      if (this.outgoing(node).length > 0) continue;
+      let depth = 0;
+      for (const link of this.incoming(node)) {
+        const inputDepth = isPassThrough(link.source) ? link.source.depth : 0;
+        depth = Math.max(depth, inputDepth + 1);
+      }
+      node.depth = depth;
+    }
+
+    for (const node of nodes) {
+      if (this.incoming(node).length > 0) continue;
+      let depth = Infinity;
+      for (const link of this.outgoing(node)) {
+        depth = Math.min(depth, link.target.depth - 1);
+      }
+      node.depth = isFinite(depth) ? depth : 0;
+    }
   }
 
   /** Node value = max(sum of incoming, sum of outgoing) */
@@ -90,9 +468,10 @@ export class SankeyLayout {
 
   /** Horizontal positioning by depth */
   private positionNodesX(nodes: SankeyNode[]): void {
-    const { padding, width, nodeWidth } = this.config;
+    const { padding, width } = this.frame;
+    const { nodeWidth } = this.config;
     const innerWidth = width - padding.left - padding.right - nodeWidth;
-    const maxDepth = Math.max(...nodes.map(n => n.depth), 0);
+    const maxDepth = maxDepthOf(nodes);
     const step = maxDepth > 0 ? innerWidth / maxDepth : 0;
 
     for (const node of nodes) {
@@ -102,43 +481,174 @@ export class SankeyLayout {
   }
 
   /** Initial vertical positioning: stack nodes per column using a global scale */
-  private initializeNodeY(nodes: SankeyNode[]): void {
-    const { padding, height, nodePadding } = this.config;
-    const innerHeight = height - padding.top - padding.bottom;
-
-    // Group nodes by depth
-    const columns = this.getColumns(nodes);
+  private initializeNodeY(columns: SankeyNode[][]): void {
+    const { nodePadding } = this.config;
+    const scale = this.solveScale(columns);
 
-    // Compute a single global scale: the most constrained column determines it.
-    // This ensures 1 unit of value = same pixels everywhere, so links fill nodes.
-    let globalScale = Infinity;
     for (const column of columns) {
-      const totalValue = column.reduce((s, n) => s + n.value, 0);
-      const totalPadding = Math.max(0, (column.length - 1) * nodePadding);
-      const availableHeight = innerHeight - totalPadding;
-      if (totalValue > 0) {
-        const scale = availableHeight / totalValue;
-        if (scale < globalScale) globalScale = scale;
+      let y = this.extent.top;
+      for (const node of column) {
+        this.computeLinkWidths(node, scale);
+        node.y = y;
+        node.height = this.nodeThickness(node);
+        y += node.height + nodePadding;
       }
     }
-    if (!isFinite(globalScale)) globalScale = 0;
+  }
 
+  /**
+   * Pixels per (scaled) unit of value. A single global scale, so a value
+   * means the same thickness everywhere and links fill their nodes; the most
+   * constrained column determines it. Minimum thicknesses can push a column
+   * past the available height, in which case the scale is bisected down
+   * until every column fits.
+   */
+  private solveScale(columns: SankeyNode[][]): number {
+    const { nodePadding } = this.config;
+    const innerHeight = this.extent.bottom - this.extent.top;
+    const available = columns.map(c => innerHeight - Math.max(0, (c.length - 1) * nodePadding));
+
+    // Upper bound ignoring minimum thicknesses
+    let upper = Infinity;
+    columns.forEach((column, i) => {
+      const total = column.reduce((s, n) => s + this.scaledNodeValue(n), 0);
+      if (total > 0) upper = Math.min(upper, available[i] / total);
+    });
+    if (!isFinite(upper)) return 0;
+
+    const fits = (scale: number) => columns.every((column, i) => {
+      let height = 0;
+      for (const node of column) {
+        this.computeLinkWidths(node, scale);
+        height += this.nodeThickness(node);
+      }
+      return height <= available[i] + 1e-6;
+    });
+    if (fits(upper)) return upper;
+
+    let lower = 0;
+    for (let i = 0; i < SCALE_BISECTIONS; i++) {
+      const mid = (lower + upper) / 2;
+      if (fits(mid)) lower = mid;
+      else upper = mid;
+    }
+    return lower;
+  }
+
+  /** Value as mapped by `valueScale`, before conversion to pixels */
+  private scaledValue(value: number): number {
+    if (value <= 0) return 0;
+    switch (this.config.valueScale) {
+      case 'sqrt': return Math.sqrt(value);
+      case 'log': return Math.log1p(value);
+      default: return value;
+    }
+  }
+
+  /** Larger of a node's scaled inflow and outflow */
+  private scaledNodeValue(node: SankeyNode): number {
+    const inSum = node.targetLinks.reduce((s, l) => s + this.scaledValue(l.value), 0);
+    const outSum = node.sourceLinks.reduce((s, l) => s + this.scaledValue(l.value), 0);
+    return Math.max(inSum, outSum);
+  }
+
+  /** Node thickness: its stacked links on the fuller side, at least `minNodeHeight` */
+  private nodeThickness(node: SankeyNode): number {
+    const inSum = node.targetLinks.reduce((s, l) => s + l.width, 0);
+    const outSum = node.sourceLinks.reduce((s, l) => s + l.width, 0);
+    return Math.max(this.config.minNodeHeight, inSum, outSum);
+  }
+
+  /**
+   * Order nodes within each column to reduce link crossings. Starts from a
+   * value-sorted order, then sweeps alternately left-to-right and
+   * right-to-left, moving each node to the barycenter (or weighted median) of
+   * its neighbours in the previous column. The ordering with the fewest
+   * crossings wins.
+   */
+  private orderNodes(columns: SankeyNode[][]): SankeyNode[][] {
+    // Nodes with an order hint come first, in hint order; the rest by value
     for (const column of columns) {
-      // Sort by value descending for initial placement
-      column.sort((a, b) => b.value - a.value);
+      column.sort((a, b) =>
+        (a.order ?? Infinity) - (b.order ?? Infinity) || b.value - a.value);
+    }
+    if (this.config.nodeSort === 'value' || columns.length < 2) return columns;
+
+    // Relative position (0..1) within the column, comparable across columns
+    const position = new Map<SankeyNode, number>();
+    const index = (column: SankeyNode[]) => {
+      column.forEach((n, i) => position.set(n, column.length > 1 ? i / (column.length - 1) : 0.5));
+    };
+    columns.forEach(index);
+
+    const fixed = columns.map(hasOrderHints);
+    const groups = this.linkGroups(columns);
+    let best = columns.map(c => [...c]);
+    let bestCrossings = countCrossings(groups, position);
+
+    for (let sweep = 0; sweep < ORDER_SWEEPS && bestCrossings > 0; sweep++) {
+      const downstream = sweep % 2 === 0;
+      for (let i = 1; i < columns.length; i++) {
+        const c = downstream ? i : columns.length - 1 - i;
+        if (fixed[c]) continue;
+        const column = columns[c];
+        const keys = new Map<SankeyNode, number>();
+        for (const node of column) {
+          const links = downstream ? this.incoming(node) : this.outgoing(node);
+          keys.set(node, this.orderKey(links, downstream, position) ?? position.get(node)!);
+        }
+        // Stable sort: nodes with equal keys keep their relative order
+        column.sort((a, b) => keys.get(a)! - keys.get(b)!);
+        index(column);
+      }
+
+      const crossings = countCrossings(groups, position);
+      if (crossings < bestCrossings) {
+        bestCrossings = crossings;
+        best = columns.map(c => [...c]);
+      }
+    }
 
-      let y = padding.top;
+    return best;
+  }
+
+  /** Barycenter or weighted median of the neighbours at the other end of `links` */
+  private orderKey(links: SankeyLink[], fromSource: boolean, position: Map<SankeyNode, number>): number | null {
+    const neighbours = links
+      .filter(l => l.value > 0)
+      .map(l => ({ pos: position.get(fromSource ? l.source : l.target)!, weight: l.value }));
+    if (neighbours.length === 0) return null;
+
+    const total = neighbours.reduce((s, n) => s + n.weight, 0);
+    if (this.config.nodeSort === 'median') {
+      neighbours.sort((a, b) => a.pos - b.pos);
+      let cumulative = 0;
+      for (const n of neighbours) {
+        cumulative += n.weight;
+        if (cumulative >= total / 2) return n.pos;
+      }
+    }
+    return neighbours.reduce((s, n) => s + n.pos * n.weight, 0) / total;
+  }
+
+  /** Non-circular links grouped by the pair of columns they connect */
+  private linkGroups(columns: SankeyNode[][]): SankeyLink[][] {
+    const groups = new Map<string, SankeyLink[]>();
+    for (const column of columns) {
       for (const node of column) {
-        node.y = y;
-        node.height = Math.max(1, node.value * globalScale);
-        y += node.height + nodePadding;
+        for (const link of this.outgoing(node)) {
+          const key = `${link.source.depth}:${link.target.depth}`;
+          const group = groups.get(key);
+          if (group) group.push(link);
+          else groups.set(key, [link]);
+        }
       }
     }
+    return Array.from(groups.values());
   }
 
   /** Iteratively relax vertical positions to reduce link crossings */
-  private relaxNodePositions(nodes: SankeyNode[]): void {
-    const columns = this.getColumns(nodes);
+  private relaxNodePositions(columns: SankeyNode[][]): void {
     const alpha = 1;
 
     for (let i = 0; i < this.config.iterations; i++) {
@@ -147,7 +657,7 @@ export class SankeyLayout {
       // Forward pass: position nodes based on their incoming links
       for (let c = 1; c < columns.length; c++) {
         for (const node of columns[c]) {
-          if (node.targetLinks.length === 0) continue;
+          if (this.incoming(node).length === 0) continue;
           const weightedCenter = this.weightedCenter(node, 'target');
           const delta = weightedCenter - this.nodeCenter(node);
           node.y += delta * damping;
@@ -158,7 +668,7 @@ export class SankeyLayout {
       // Backward pass: position nodes based on their outgoing links
       for (let c = columns.length - 2; c >= 0; c--) {
         for (const node of columns[c]) {
-          if (node.sourceLinks.length === 0) continue;
+          if (this.outgoing(node).length === 0) continue;
           const weightedCenter = this.weightedCenter(node, 'source');
           const delta = weightedCenter - this.nodeCenter(node);
           node.y += delta * damping;
@@ -168,44 +678,117 @@ export class SankeyLayout {
     }
   }
 
-  /** Compute link sy/ty offsets and widths */
+  /** Thickness of the links at a node: scaled value, at least `minLinkWidth` */
+  private computeLinkWidths(node: SankeyNode, scale: number): void {
+    const { minLinkWidth } = this.config;
+    const size = (link: SankeyLink) => {
+      link.width = link.value > 0 ? Math.max(minLinkWidth, this.scaledValue(link.value) * scale) : 0;
+    };
+    node.sourceLinks.forEach(size);
+    node.targetLinks.forEach(size);
+  }
+
+  /** Stack links within each node: compute sy/ty offsets */
   private computeLinkOffsets(nodes: SankeyNode[]): void {
-    const columns = this.getColumns(nodes);
+    // Loops over the top leave/enter at the top edge of a node, loops
+    // under the bottom at the bottom edge; regular links fill the middle.
+    const band = (link: SankeyLink) =>
+      !link.circular ? 1 : link.circularSide === 'top' ? 0 : 2;
+    // Within a band, longer loops sit outside shorter ones
+    const span = (link: SankeyLink) => Math.abs(link.source.x - link.target.x);
 
-    for (const column of columns) {
-      // Sort source links for each node
-      for (const node of column) {
-        // Sort outgoing links by target y position
-        node.sourceLinks.sort((a, b) => a.target.y - b.target.y);
-        // Sort incoming links by source y position
-        node.targetLinks.sort((a, b) => a.source.y - b.source.y);
-      }
+    for (const node of nodes) {
+      // Sort outgoing links by target y position
+      node.sourceLinks.sort((a, b) =>
+        band(a) - band(b) ||
+        (a.circular
+          ? (a.circularSide === 'top' ? span(b) - span(a) : span(a) - span(b))
+          : a.target.y - b.target.y));
+      // Sort incoming links by source y position
+      node.targetLinks.sort((a, b) =>
+        band(a) - band(b) ||
+        (a.circular
+          ? (a.circularSide === 'top' ? span(b) - span(a) : span(a) - span(b))
+          : a.source.y - b.source.y));
     }
 
-    // Compute link widths from source side, then compute offsets
-    for (const node of nodes) {
-      const outTotal = node.sourceLinks.reduce((s, l) => s + l.value, 0);
-      let sy = 0;
-      for (const link of node.sourceLinks) {
-        link.width = outTotal > 0 ? (link.value / outTotal) * node.height : 0;
-        link.sy = sy;
-        sy += link.width;
+    // Links may not fill a node (drop-off, minimum thicknesses), so the
+    // bottom loops are stacked up from the bottom edge, the rest down from
+    // the top.
+    const stack = (node: SankeyNode, links: SankeyLink[], set: (link: SankeyLink, offset: number) => void) => {
+      const bottom = links.filter(l => band(l) === 2).reduce((s, l) => s + l.width, 0);
+      let offset = 0;
+      for (const link of links) {
+        if (band(link) === 2 && offset < node.height - bottom) offset = node.height - bottom;
+        set(link, offset);
+        offset += link.width;
       }
+    };
+    for (const node of nodes) {
+      stack(node, node.sourceLinks, (link, offset) => { link.sy = offset; });
+      stack(node, node.targetLinks, (link, offset) => { link.ty = offset; });
     }
+  }
 
-    // Compute target-side offsets using the already-set link widths
-    for (const node of nodes) {
-      let ty = 0;
-      for (const link of node.targetLinks) {
-        link.ty = ty;
-        ty += link.width;
+  /** Send each loop over the top or under the bottom, whichever its ends are nearer */
+  private assignCircularSides(circular: SankeyLink[]): void {
+    const middle = (this.extent.top + this.extent.bottom) / 2;
+    for (const link of circular) {
+      const center = (this.nodeCenter(link.source) + this.nodeCenter(link.target)) / 2;
+      link.circularSide = center < middle ? 'top' : 'bottom';
+    }
+  }
+
+  /** Shrink the node band so loops fit inside the chart padding */
+  private reserveCircularSpace(circular: SankeyLink[]): void {
+    const gap = this.config.circularLinkGap;
+    let top = 0;
+    let bottom = 0;
+    for (const link of circular) {
+      if (link.circularSide === 'top') top += link.width + gap;
+      else bottom += link.width + gap;
+    }
+    if (top > 0) top += gap;
+    if (bottom > 0) bottom += gap;
+
+    // Never give loops more than half of the drawing area
+    const available = this.extent.bottom - this.extent.top;
+    const limit = available / 2;
+    if (top + bottom > limit) {
+      const k = limit / (top + bottom);
+      top *= k;
+      bottom *= k;
+    }
+    this.extent = { top: this.extent.top + top, bottom: this.extent.bottom - bottom };
+  }
+
+  /**
+   * Stack loops into lanes beyond the node band. Shorter loops take the inner
+   * lanes so nested loops do not cross.
+   */
+  private computeCircularLanes(circular: SankeyLink[]): void {
+    const gap = this.config.circularLinkGap;
+    const span = (link: SankeyLink) => Math.abs(link.source.x - link.target.x);
+
+    for (const side of ['top', 'bottom'] as const) {
+      const lanes = circular
+        .filter(l => l.circularSide === side)
+        .sort((a, b) => span(a) - span(b));
+
+      let offset = gap;
+      for (const link of lanes) {
+        link.circularGap = offset;
+        link.circularY = side === 'top'
+          ? this.extent.top - offset - link.width
+          : this.extent.bottom + offset + link.width;
+        offset += link.width + gap;
       }
     }
   }
 
   /** Group nodes by depth column */
   private getColumns(nodes: SankeyNode[]): SankeyNode[][] {
-    const maxDepth = Math.max(...nodes.map(n => n.depth), 0);
+    const maxDepth = maxDepthOf(nodes);
     const columns: SankeyNode[][] = Array.from({ length: maxDepth + 1 }, () => []);
     for (const node of nodes) {
       columns[node.depth].push(node);
@@ -215,7 +798,7 @@ export class SankeyLayout {
 
   /** Weighted average center of connected nodes */
   private weightedCenter(node: SankeyNode, direction: 'source' | 'target'): number {
-    const links = direction === 'target' ? node.targetLinks : node.sourceLinks;
+    const links = direction === 'target' ? this.incoming(node) : this.outgoing(node);
     let sumWeightedY = 0;
     let sumWeight = 0;
 
@@ -236,14 +819,17 @@ export class SankeyLayout {
 
   /** Resolve vertical overlaps within a column */
   private resolveCollisions(column: SankeyNode[]): void {
-    const { padding, height, nodePadding } = this.config;
-    const innerBottom = height - padding.bottom;
+    const { nodePadding } = this.config;
+    const innerBottom = this.extent.bottom;
+    // Pinned columns can leave a column empty
+    if (column.length === 0) return;
 
-    // Sort by y position
-    column.sort((a, b) => a.y - b.y);
+    // Sort by y position, unless the column has a fixed order. Columns are
+    // nearly sorted between iterations, so insertion sort is close to linear.
+    if (!this.fixedColumns.has(column)) insertionSortByY(column);
 
     // Push down overlapping nodes
-    let y = padding.top;
+    let y = this.extent.top;
     for (const node of column) {
       const dy = y - node.y;
       if (dy > 0) node.y += dy;
@@ -264,3 +850,76 @@ export class SankeyLayout {
     }
   }
 }
+
+/** Largest depth without spreading (large graphs overflow the call stack) */
+function maxDepthOf(nodes: SankeyNode[]): number {
+  let max = 0;
+  for (const node of nodes) if (node.depth > max) max = node.depth;
+  return max;
+}
+
+function insertionSortByY(column: SankeyNode[]): void {
+  for (let i = 1; i < column.length; i++) {
+    const node = column[i];
+    let j = i - 1;
+    while (j >= 0 && column[j].y > node.y) {
+      column[j + 1] = column[j];
+      j--;
+    }
+    column[j + 1] = node;
+  }
+}
+
+/**
+ * Crossings between links that connect the same pair of columns: sort each
+ * group by source then target position and count inversions of the target
+ * positions with a Fenwick tree, O(E log E).
+ */
+function countCrossings(groups: SankeyLink[][], position: Map<SankeyNode, number>): number {
+  let crossings = 0;
+  for (const group of groups) {
+    if (group.length < 2) continue;
+    const pairs = group
+      .map(l => ({ s: position.get(l.source)!, t: position.get(l.target)! }))
+      .sort((a, b) => a.s - b.s || a.t - b.t);
+
+    const targets = Array.from(new Set(pairs.map(p => p.t))).sort((a, b) => a - b);
+    const rank = new Map(targets.map((t, i) => [t, i + 1]));
+    const tree = new Array<number>(targets.length + 1).fill(0);
+
+    for (let seen = 0; seen < pairs.length; seen++) {
+      const r = rank.get(pairs[seen].t)!;
+      // Earlier links (smaller source) that land strictly below this one
+      let atOrAbove = 0;
+      for (let i = r; i > 0; i -= i & -i) atOrAbove += tree[i];
+      crossings += seen - atOrAbove;
+      for (let i = r; i < tree.length; i += i & -i) tree[i]++;
+    }
+  }
+  return crossings;
+}
+
+/** Columns containing order hints keep their order through the layout */
+function hasOrderHints(column: SankeyNode[]): boolean {
+  return column.some(n => n.order !== undefined);
+}
+
+/** y of a ribbon's center line (a cubic with horizontal tangents) at flow position x */
+function centerLineY(line: { x0: number; x1: number; y0: number; y1: number }, x: number): number {
+  const { x0, x1, y0, y1 } = line;
+  if (x1 <= x0) return y0;
+  // x(t) is monotonic, so bisect for t
+  const mid = (x0 + x1) / 2;
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 30; i++) {
+    const t = (lo + hi) / 2;
+    const u = 1 - t;
+    const xt = u * u * u * x0 + 3 * u * t * mid + t * t * t * x1;
+    if (xt < x) lo = t;
+    else hi = t;
+  }
+  const t = (lo + hi) / 2;
+  const u = 1 - t;
+  return (u * u * u + 3 * u * u * t) * y0 + (3 * u * t * t + t * t * t) * y1;
+}
@@ -0,0 +1,95 @@
+import type { SankeyNode, SankeyLink, SankeyGraph, SankeyConfig } from '../types/index.js';
+
+/**
+ * Messages exchanged with the layout worker. Nodes and links travel as plain
+ * records indexed by their position in `graph.nodes` / `graph.links`, and
+ * only the computed geometry comes back, so the caller's graph objects (and
+ * any `meta` they carry) never have to be cloned across threads.
+ */
+export interface LayoutRequest {
+  id: number;
+  /** Config with function-valued options stripped (not structured-cloneable) */
+  config: SankeyConfig;
+  nodes: Array<Pick<SankeyNode, 'id' | 'column' | 'order'>>;
+  links: Array<{ source: number; target: number; value: number }>;
+}
+
+export interface LayoutResult {
+  id: number;
+  nodes: Array<Pick<SankeyNode, 'depth' | 'value' | 'x' | 'y' | 'width' | 'height'>>;
+  links: Array<Pick<SankeyLink, 'width' | 'sy' | 'ty' | 'circular' | 'circularSide' | 'circularY' | 'circularGap'>>;
+}
+
+/** Serialize the layout inputs of a graph */
+export function toLayoutRequest(graph: SankeyGraph, config: SankeyConfig, id: number): LayoutRequest {
+  const index = new Map(graph.nodes.map((n, i) => [n, i]));
+  const layoutConfig = Object.fromEntries(
+    Object.entries(config).filter(([, v]) => typeof v !== 'function'),
+  ) as SankeyConfig;
+  if (layoutConfig.layoutWorker instanceof URL) layoutConfig.layoutWorker = layoutConfig.layoutWorker.href;
+
+  return {
+    id,
+    config: layoutConfig,
+    nodes: graph.nodes.map(n => ({ id: n.id, column: n.column, order: n.order })),
+    links: graph.links.map(l => ({
+      source: index.get(l.source)!,
+      target: index.get(l.target)!,
+      value: l.value,
+    })),
+  };
+}
+
+/** Rebuild a graph from a request, inside the worker */
+export function fromLayoutRequest(request: LayoutRequest): SankeyGraph {
+  const nodes: SankeyNode[] = request.nodes.map(n => ({
+    id: n.id,
+    label: n.id,
+    column: n.column,
+    order: n.order,
+    sourceLinks: [],
+    targetLinks: [],
+    value: 0,
+    depth: 0,
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+  }));
+  const links: SankeyLink[] = request.links.map(l => {
+    const link: SankeyLink = {
+      source: nodes[l.source],
+      target: nodes[l.target],
+      value: l.value,
+      width: 0,
+      sy: 0,
+      ty: 0,
+    };
+    link.source.sourceLinks.push(link);
+    link.target.targetLinks.push(link);
+    return link;
+  });
+  return { nodes, links };
+}
+
+/** Extract the computed geometry of a laid-out graph */
+export function toLayoutResult(graph: SankeyGraph, id: number): LayoutResult {
+  return {
+    id,
+    nodes: graph.nodes.map(({ depth, value, x, y, width, height }) => ({ depth, value, x, y, width, height })),
+    links: graph.links.map(({ width, sy, ty, circular, circularSide, circularY, circularGap }) =>
+      ({ width, sy, ty, circular, circularSide, circularY, circularGap })),
+  };
+}
+
+/** Copy computed geometry back onto the caller's graph */
+export function applyLayoutResult(graph: SankeyGraph, result: LayoutResult): void {
+  graph.nodes.forEach((node, i) => Object.assign(node, result.nodes[i]));
+  graph.links.forEach((link, i) => Object.assign(link, result.links[i]));
+
+  // Keep per-node link lists in the order the layout stacked them
+  for (const node of graph.nodes) {
+    node.sourceLinks.sort((a, b) => a.sy - b.sy);
+    node.targetLinks.sort((a, b) => a.ty - b.ty);
+  }
+}
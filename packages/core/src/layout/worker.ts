@@ -0,0 +1,20 @@
+/**
+ * Web Worker entry for off-main-thread layout, built to
+ * `dist/layout.worker.global.js`. Point `layoutWorker` at that file.
+ */
+import { SankeyLayout } from './sankey.js';
+import { fromLayoutRequest, toLayoutResult } from './transfer.js';
+import type { LayoutRequest, LayoutResult } from './transfer.js';
+
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<LayoutRequest>) => void) | null;
+  postMessage(result: LayoutResult): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (e) => {
+  const graph = fromLayoutRequest(e.data);
+  new SankeyLayout(e.data.config).compute(graph);
+  scope.postMessage(toLayoutResult(graph, e.data.id));
+};
@@ -0,0 +1,298 @@
+import type { SankeyGraph, SankeyConfig, SankeyNode, SankeyLink, JourneyMetrics } from '../types/index.js';
+import { linkKey } from '../identity.js';
+import { PathGenerator } from '../layout/path.js';
+import { GradientManager } from './gradient.js';
+import { formatNumber, nodeBadge, nodeHeight } from './markup.js';
+import { resolveTheme } from './theme.js';
+
+/** Links thinner than this are hit-tested as if they were this thick */
+const MIN_HIT_WIDTH = 4;
+/** Bisection steps when solving a ribbon's curve for a flow position */
+const CURVE_BISECTIONS = 24;
+
+/** What lies under a point on the chart */
+export type CanvasHit = { node: SankeyNode } | { link: SankeyLink } | null;
+
+/**
+ * Canvas renderer for large graphs: one bitmap instead of thousands of SVG
+ * paths and gradients. Draws links, nodes, labels and percentage badges like
+ * the SVG renderer, redraws to highlight, and hit-tests points geometrically
+ * so events work without DOM elements per node or link.
+ */
+export class CanvasRenderer {
+  private canvas: HTMLCanvasElement;
+  private config: SankeyConfig;
+  private graph: SankeyGraph | null = null;
+  private metrics?: Map<string, JourneyMetrics>;
+  /** Highlighted link keys and node ids; null when nothing is highlighted */
+  private highlighted: { links: Set<string>; nodes: Set<string> } | null = null;
+
+  constructor(container: HTMLElement, config: SankeyConfig) {
+    this.config = config;
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'sankey-chart sankey-canvas';
+    this.canvas.style.display = 'block';
+    container.appendChild(this.canvas);
+    this.resize(config.width, config.height);
+  }
+
+  /** Given journey metrics with goals, by node id, the percentage badge shows goal reach */
+  render(graph: SankeyGraph, metrics?: Map<string, JourneyMetrics>): void {
+    this.graph = graph;
+    this.metrics = metrics;
+    this.highlighted = null;
+    this.draw();
+  }
+
+  resize(width: number, height: number): void {
+    const ratio = window.devicePixelRatio || 1;
+    this.canvas.width = Math.round(width * ratio);
+    this.canvas.height = Math.round(height * ratio);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.draw();
+  }
+
+  /** Emphasize the given links and nodes and dim the rest; null restores the default look */
+  highlight(links: Set<string> | null, nodes?: Set<string>): void {
+    this.highlighted = links ? { links, nodes: nodes ?? new Set() } : null;
+    this.draw();
+  }
+
+  setVisible(visible: boolean): void {
+    this.canvas.style.display = visible ? 'block' : 'none';
+  }
+
+  getCanvas(): HTMLCanvasElement { return this.canvas; }
+
+  destroy(): void {
+    this.canvas.remove();
+  }
+
+  /** The node or link at a point in chart coordinates; nodes win over links, later links over earlier */
+  hitTest(x: number, y: number): CanvasHit {
+    if (!this.graph) return null;
+    const vertical = this.config.orientation === 'vertical';
+
+    for (let i = this.graph.nodes.length - 1; i >= 0; i--) {
+      const node = this.graph.nodes[i];
+      if (x >= node.x && x <= node.x + node.width && y >= node.y && y <= node.y + nodeHeight(node)) {
+        return { node };
+      }
+    }
+
+    // Links are tested in the flow frame: along the flow, then across it
+    const flow = vertical ? y : x;
+    const cross = vertical ? x : y;
+    for (let i = this.graph.links.length - 1; i >= 0; i--) {
+      const link = this.graph.links[i];
+      const hit = link.circular
+        ? hitCircular(link, flow, cross, vertical)
+        : hitRibbon(link, flow, cross, vertical);
+      if (hit) return { link };
+    }
+    return null;
+  }
+
+  private draw(): void {
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+    const ratio = this.canvas.width / Math.max(1, this.config.width);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, this.config.width, this.config.height);
+    if (!this.graph) return;
+
+    this.drawLinks(ctx, this.graph.links);
+    this.drawNodes(ctx, this.graph.nodes);
+    this.drawLabels(ctx, this.graph.nodes);
+  }
+
+  private drawLinks(ctx: CanvasRenderingContext2D, links: SankeyLink[]): void {
+    const vertical = this.config.orientation === 'vertical';
+    for (const link of links) {
+      const path = new Path2D(PathGenerator.linkArea(link, this.config.orientation));
+      let fill: string | CanvasGradient | null = GradientManager.linkColor(link, this.config);
+      if (!fill) {
+        const [x1, y1, x2, y2] = vertical
+          ? [0, link.source.y + link.source.height, 0, link.target.y]
+          : [link.source.x + link.source.width, 0, link.target.x, 0];
+        fill = ctx.createLinearGradient(x1, y1, x2, y2);
+        fill.addColorStop(0, link.source.color || '#888');
+        fill.addColorStop(1, link.target.color || '#888');
+      }
+
+      ctx.globalAlpha = this.linkOpacity(link);
+      ctx.fillStyle = fill;
+      ctx.fill(path);
+      if (link.circular) {
+        ctx.setLineDash(this.config.circularLinkDash.split(/[\s,]+/).map(Number));
+        ctx.strokeStyle = fill;
+        ctx.stroke(path);
+        ctx.setLineDash([]);
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private drawNodes(ctx: CanvasRenderingContext2D, nodes: SankeyNode[]): void {
+    const dim = resolveTheme(this.config.theme).nodeDimOpacity;
+    for (const node of nodes) {
+      ctx.globalAlpha = this.highlighted && !this.highlighted.nodes.has(node.id) ? dim : 1;
+      ctx.fillStyle = node.color || '#888';
+      ctx.fillRect(node.x, node.y, node.width, nodeHeight(node));
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  /** Same placement as the SVG labels: after the node, before it in the last column; badges on the node */
+  private drawLabels(ctx: CanvasRenderingContext2D, nodes: SankeyNode[]): void {
+    const maxDepth = nodes.reduce((max, n) => Math.max(max, n.depth), 0);
+    const vertical = this.config.orientation === 'vertical';
+    const theme = resolveTheme(this.config.theme);
+    const gap = 8;
+    const write = (text: string, x: number, y: number) => {
+      if (theme.labelHalo !== 'none') {
+        ctx.strokeStyle = theme.labelHalo;
+        ctx.lineWidth = 3;
+        ctx.lineJoin = 'round';
+        ctx.strokeText(text, x, y);
+      }
+      ctx.fillText(text, x, y);
+    };
+
+    for (const node of nodes) {
+      const label = this.config.nodeLabel ? this.config.nodeLabel(node) : node.label;
+      const isAfter = node.depth < maxDepth;
+      const isSource = node.targetLinks.length === 0;
+      const value = (isSource ? node.sourceLinks : node.targetLinks).reduce((s, l) => s + l.value, 0);
+      const centerY = node.y + node.height / 2;
+      const x = vertical
+        ? node.x + node.width / 2
+        : isAfter ? node.x + node.width + gap : node.x - gap;
+
+      ctx.globalAlpha = this.highlighted && !this.highlighted.nodes.has(node.id) ? theme.labelDimOpacity : 1;
+      ctx.textAlign = vertical ? 'center' : isAfter ? 'left' : 'right';
+      ctx.textBaseline = 'middle';
+
+      let nameY = centerY;
+      let valueY: number | null = null;
+      if (vertical) {
+        nameY = isAfter ? node.y + node.height + gap + 7 : node.y - gap - 19;
+        valueY = nameY + 15;
+      } else if (node.height >= 28) {
+        nameY = centerY - 8;
+        valueY = centerY + 7;
+      }
+
+      ctx.font = `600 12px ${theme.fontFamily}`;
+      ctx.fillStyle = theme.labelColor;
+      write(valueY === null ? `${label}  ${formatNumber(value)}` : label, x, nameY);
+      if (valueY !== null) {
+        ctx.font = `400 11px ${theme.fontFamily}`;
+        ctx.fillStyle = theme.valueColor;
+        write(formatNumber(value), x, valueY);
+      }
+
+      const badge = nodeBadge(node, this.config, this.metrics);
+      if (badge) {
+        ctx.fillStyle = theme.badgeBackground;
+        roundedRect(ctx, badge.x - badge.width / 2, badge.y - badge.height / 2, badge.width, badge.height, 6);
+        ctx.fill();
+        ctx.font = `600 9px ${theme.fontFamily}`;
+        ctx.fillStyle = theme.badgeColor;
+        ctx.textAlign = 'center';
+        ctx.fillText(badge.text, badge.x, badge.y);
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private linkOpacity(link: SankeyLink): number {
+    if (!this.highlighted) return this.config.linkOpacity;
+    return this.highlighted.links.has(linkKey(link))
+      ? this.config.linkHighlightOpacity
+      : this.config.linkDimOpacity;
+  }
+}
+
+/** Trace a rounded rectangle; `arcTo` rather than `roundRect`, which older browsers lack */
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number): void {
+  const radius = Math.min(r, w / 2, h / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+}
+
+/** Thickness used for hit testing, so hairline links stay hoverable */
+function hitWidth(link: SankeyLink): { pad: number; width: number } {
+  const pad = Math.max(0, (MIN_HIT_WIDTH - link.width) / 2);
+  return { pad, width: link.width + 2 * pad };
+}
+
+/**
+ * A ribbon's edges are cubic beziers whose control points sit at the source
+ * end, the midpoint (twice) and the target end along the flow, so flow
+ * position is monotonic in t and can be solved by bisection.
+ */
+function hitRibbon(link: SankeyLink, flow: number, cross: number, vertical: boolean): boolean {
+  const s = link.source;
+  const t = link.target;
+  const x0 = vertical ? s.y + s.height : s.x + s.width;
+  const x1 = vertical ? t.y : t.x;
+  if (flow < Math.min(x0, x1) || flow > Math.max(x0, x1)) return false;
+
+  const y0 = (vertical ? s.x : s.y) + link.sy;
+  const y1 = (vertical ? t.x : t.y) + link.ty;
+  const { pad, width } = hitWidth(link);
+  if (cross < Math.min(y0, y1) - pad || cross > Math.max(y0, y1) + width) return false;
+
+  const mid = (x0 + x1) / 2;
+  const along = (u: number) => {
+    const v = 1 - u;
+    return x0 * v * v * v + 3 * mid * v * v * u + 3 * mid * v * u * u + x1 * u * u * u;
+  };
+  let lo = 0;
+  let hi = 1;
+  const rising = x1 >= x0;
+  for (let i = 0; i < CURVE_BISECTIONS; i++) {
+    const u = (lo + hi) / 2;
+    if ((along(u) < flow) === rising) lo = u;
+    else hi = u;
+  }
+  const u = (lo + hi) / 2;
+  const v = 1 - u;
+  const top = y0 * (v * v * v + 3 * v * v * u) + y1 * (3 * v * u * u + u * u * u) - pad;
+  return cross >= top && cross <= top + width;
+}
+
+/** A loop is tested as the five straight bands it is drawn from, ignoring the rounded corners */
+function hitCircular(link: SankeyLink, flow: number, cross: number, vertical: boolean): boolean {
+  const s = link.source;
+  const t = link.target;
+  const { pad, width: w } = hitWidth(link);
+  const gap = link.circularGap ?? 0;
+  const loop = link.circularY ?? 0;
+  const top = link.circularSide !== 'bottom';
+
+  const sourceX = vertical ? s.y + s.height : s.x + s.width;
+  const targetX = vertical ? t.y : t.x;
+  const sy = (vertical ? s.x : s.y) + link.sy - pad;
+  const ty = (vertical ? t.x : t.y) + link.ty - pad;
+  const channel = top ? [loop - pad, loop - pad + w] : [loop + pad - w, loop + pad];
+  const sLeg = sourceX + gap + link.width / 2;
+  const tLeg = targetX - gap - link.width / 2;
+
+  const within = (f0: number, f1: number, c0: number, c1: number) =>
+    flow >= Math.min(f0, f1) && flow <= Math.max(f0, f1) &&
+    cross >= Math.min(c0, c1) && cross <= Math.max(c0, c1);
+
+  return within(sourceX, sLeg + w / 2, sy, sy + w) ||
+    within(sLeg - w / 2, sLeg + w / 2, sy, channel[top ? 0 : 1]) ||
+    within(sLeg, tLeg, channel[0], channel[1]) ||
+    within(tLeg - w / 2, tLeg + w / 2, ty, channel[top ? 0 : 1]) ||
+    within(tLeg - w / 2, targetX, ty, ty + w);
+}
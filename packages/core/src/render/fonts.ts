@@ -0,0 +1,63 @@
+const URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+/**
+ * The page's `@font-face` rules for the families in a CSS `font-family`
+ * list, with their URLs made absolute so they still resolve outside the
+ * stylesheet. Stylesheets the page can't read (cross-origin) are skipped;
+ * generic families such as `system-ui` have no rules to find.
+ */
+export function collectFontFaces(fontFamily: string): string {
+  const families = new Set(fontFamily.split(',').map(unquote).filter(Boolean));
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRule[];
+    try {
+      cssRules = Array.from(sheet.cssRules);
+    } catch {
+      continue;
+    }
+    const base = sheet.href ?? document.baseURI;
+    for (const rule of cssRules) {
+      if (!rule.cssText.startsWith('@font-face')) continue;
+      const family = unquote((rule as CSSStyleRule).style.getPropertyValue('font-family'));
+      if (!families.has(family)) continue;
+      rules.push(rule.cssText.replace(URL_PATTERN, (match, _quote, url: string) =>
+        url.startsWith('data:') ? match : `url("${new URL(url, base).href}")`));
+    }
+  }
+  return rules.join('\n');
+}
+
+/**
+ * Replace the font URLs in `css` with `data:` URLs, for documents that can't
+ * fetch anything (an SVG loaded as an image). Fonts that fail to download
+ * keep their URL, so the image falls back to the next family.
+ */
+export function inlineFontURLs(css: string): Promise<string> {
+  const urls = Array.from(new Set(Array.from(css.matchAll(URL_PATTERN), m => m[2])))
+    .filter(url => !url.startsWith('data:'));
+  return Promise.all(urls.map(url => fetch(url)
+    .then(response => {
+      if (!response.ok) throw new Error(`Font request failed: ${response.status}`);
+      return response.blob();
+    })
+    .then(blobToDataURL)
+    .catch(() => url))).then(inlined => {
+    const byURL = new Map(urls.map((url, i) => [url, inlined[i]]));
+    return css.replace(URL_PATTERN, (match, _quote, url: string) =>
+      byURL.has(url) ? `url("${byURL.get(url)}")` : match);
+  });
+}
+
+function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Font could not be read'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function unquote(family: string): string {
+  return family.trim().replace(/^(['"])(.*)\1$/, '$2').toLowerCase();
+}
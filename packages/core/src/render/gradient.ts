@@ -1,122 +1,95 @@
-import type { SankeyLink } from '../types/index.js';
-
-const SVG_NS = 'http://www.w3.org/2000/svg';
+import type { SankeyLink, SankeyConfig, Orientation, ComparisonValues } from '../types/index.js';
+import { svgElement, toDOM } from './markup.js';
+import { THEMES, resolveTheme } from './theme.js';
+import type { SvgElement } from './markup.js';
 
 /**
  * SVG gradient and filter definitions for premium rendering.
+ *
+ * The static builders describe the definitions without touching the DOM;
+ * instances add them to a live `<defs>` and cache gradients per link/node.
  */
 export class GradientManager {
   private defs: SVGDefsElement;
   private gradientIds = new Map<string, string>();
-  private filtersCreated = false;
+  /** Next free id number; not reused until `clear`, so a pruned id never points at another gradient */
+  private nextId = 0;
+  /** Node shadow color the current filters were built with */
+  private filterShadow: string | null = null;
 
   constructor(defs: SVGDefsElement) {
     this.defs = defs;
   }
 
-  ensureFilters(): void {
-    if (this.filtersCreated) return;
-    this.filtersCreated = true;
-
-    // ── Node shadow: subtle ──
-    const nodeShadow = this.createFilter('sankey-node-shadow', '-20%', '-20%', '140%', '140%');
-    this.appendFilterElements(nodeShadow, [
-      this.el('feDropShadow', { dx: '0', dy: '1', stdDeviation: '2', 'flood-color': 'rgba(0,0,0,0.3)', 'flood-opacity': '1' }),
-    ]);
-    this.defs.appendChild(nodeShadow);
-
-    // ── Link glow: gentle highlight on hover ──
-    const linkGlow = this.createFilter('sankey-link-glow', '-10%', '-10%', '120%', '120%');
-    this.appendFilterElements(linkGlow, [
-      this.el('feGaussianBlur', { in: 'SourceGraphic', stdDeviation: '1.5', result: 'blur' }),
-    ]);
-    const glowMerge = document.createElementNS(SVG_NS, 'feMerge');
-    for (const input of ['blur', 'SourceGraphic']) {
-      const mn = document.createElementNS(SVG_NS, 'feMergeNode');
-      mn.setAttribute('in', input);
-      glowMerge.appendChild(mn);
+  /** Create the filters, or rebuild them when the theme's shadow color changed */
+  ensureFilters(shadowColor?: string): void {
+    const shadow = shadowColor ?? THEMES.dark.nodeShadow;
+    if (this.filterShadow === shadow) return;
+    this.filterShadow = shadow;
+    for (const el of Array.from(this.defs.children)) {
+      if (el.tagName === 'filter') el.remove();
     }
-    linkGlow.appendChild(glowMerge);
-    this.defs.appendChild(linkGlow);
-
-    // ── Node hover glow: subtle brightening ──
-    const nodeGlow = this.createFilter('sankey-node-glow', '-30%', '-30%', '160%', '160%');
-    this.appendFilterElements(nodeGlow, [
-      this.el('feGaussianBlur', { in: 'SourceGraphic', stdDeviation: '3', result: 'blur' }),
-    ]);
-    const nodeGlowMerge = document.createElementNS(SVG_NS, 'feMerge');
-    for (const input of ['blur', 'SourceGraphic']) {
-      const mn = document.createElementNS(SVG_NS, 'feMergeNode');
-      mn.setAttribute('in', input);
-      nodeGlowMerge.appendChild(mn);
-    }
-    nodeGlow.appendChild(nodeGlowMerge);
-    this.defs.appendChild(nodeGlow);
+    for (const filter of GradientManager.filterMarkup('sankey', shadow)) this.defs.appendChild(toDOM(filter));
   }
 
-  /** Multi-stop gradient for link with soft edge feathering */
-  getGradientId(link: SankeyLink): string {
-    const key = `${link.source.id}→${link.target.id}`;
+  /** Source→target gradient along the flow axis, shared by links with the same colors and direction */
+  getGradientId(link: SankeyLink, orientation: Orientation = 'horizontal'): string {
+    const key = GradientManager.linkGradientKey(link, orientation);
     if (this.gradientIds.has(key)) return this.gradientIds.get(key)!;
 
-    const id = `sankey-grad-${this.gradientIds.size}`;
-    const gradient = document.createElementNS(SVG_NS, 'linearGradient');
-    gradient.setAttribute('id', id);
-    gradient.setAttribute('gradientUnits', 'userSpaceOnUse');
-    gradient.setAttribute('x1', String(link.source.x + link.source.width));
-    gradient.setAttribute('x2', String(link.target.x));
-    gradient.setAttribute('y1', '0');
-    gradient.setAttribute('y2', '0');
-
-    const srcColor = link.source.color || '#888';
-    const tgtColor = link.target.color || '#888';
-
-    // Clean two-stop gradient — no muddy midpoint
-    const stops = [
-      { offset: '0%', color: srcColor, opacity: '1' },
-      { offset: '100%', color: tgtColor, opacity: '1' },
-    ];
+    const id = `sankey-grad-${this.nextId++}`;
+    this.defs.appendChild(toDOM(GradientManager.linkGradientMarkup(id, link, orientation)));
+    this.gradientIds.set(key, id);
+    return id;
+  }
 
-    for (const { offset, color, opacity } of stops) {
-      const stop = document.createElementNS(SVG_NS, 'stop');
-      stop.setAttribute('offset', offset);
-      stop.setAttribute('stop-color', color);
-      stop.setAttribute('stop-opacity', opacity);
-      gradient.appendChild(stop);
+  /**
+   * Solid fill of a link under `linkColor`, or null when it gets the
+   * source→target gradient. Compared flows are colored by change; a gradient
+   * between two equal colors is just that color.
+   */
+  static linkColor(link: SankeyLink, config: SankeyConfig): string | null {
+    if (link.comparison) return GradientManager.changeColor(link.comparison, config);
+    const mode = config.linkColor;
+    const source = link.source.color || '#888';
+    const target = link.target.color || '#888';
+    if (typeof mode === 'function') return mode(link);
+    if (typeof mode === 'object') return link.color ?? (source === target ? source : null);
+    switch (mode) {
+      case 'source': return source;
+      case 'target': return target;
+      case 'solid': return resolveTheme(config.theme).linkSolidColor;
+      default: return source === target ? source : null;
     }
+  }
 
-    this.defs.appendChild(gradient);
-    this.gradientIds.set(key, id);
-    return id;
+  /** Gradient cache key: links with the same colors running the same way share one gradient */
+  static linkGradientKey(link: SankeyLink, orientation: Orientation = 'horizontal'): string {
+    return JSON.stringify([link.source.color || '#888', link.target.color || '#888', orientation, isBackward(link, orientation)]);
+  }
+
+  /**
+   * Diverging color for a compared flow: neutral when unchanged, blending
+   * toward the decrease/increase color up to `comparisonRange`. New flows
+   * (no baseline) count as a full increase.
+   */
+  static changeColor(
+    comparison: ComparisonValues,
+    config: Pick<SankeyConfig, 'comparisonColors' | 'comparisonRange'>,
+  ): string {
+    const { decrease, neutral, increase } = config.comparisonColors;
+    const change = comparison.change ?? (comparison.delta > 0 ? Infinity : 0);
+    const t = Math.min(1, Math.abs(change) / Math.max(config.comparisonRange, Number.EPSILON));
+    return GradientManager.blendColors(neutral, change < 0 ? decrease : increase, t);
   }
 
   /** Node gradient: subtle vertical sheen with glass effect */
   getNodeGradientId(nodeId: string, baseColor: string): string {
-    const key = `node-${nodeId}`;
+    const key = JSON.stringify(['node', nodeId, baseColor]);
     if (this.gradientIds.has(key)) return this.gradientIds.get(key)!;
 
-    const id = `sankey-node-grad-${this.gradientIds.size}`;
-    const gradient = document.createElementNS(SVG_NS, 'linearGradient');
-    gradient.setAttribute('id', id);
-    gradient.setAttribute('x1', '0');
-    gradient.setAttribute('y1', '0');
-    gradient.setAttribute('x2', '0.3');
-    gradient.setAttribute('y2', '1');
-
-    const stops = [
-      { offset: '0%', color: this.lighten(baseColor, 6), opacity: '1' },
-      { offset: '100%', color: this.darken(baseColor, 6), opacity: '0.95' },
-    ];
-
-    for (const { offset, color, opacity } of stops) {
-      const stop = document.createElementNS(SVG_NS, 'stop');
-      stop.setAttribute('offset', offset);
-      stop.setAttribute('stop-color', color);
-      stop.setAttribute('stop-opacity', opacity);
-      gradient.appendChild(stop);
-    }
-
-    this.defs.appendChild(gradient);
+    const id = `sankey-node-grad-${this.nextId++}`;
+    this.defs.appendChild(toDOM(GradientManager.nodeGradientMarkup(id, baseColor)));
     this.gradientIds.set(key, id);
     return id;
   }
@@ -128,64 +101,134 @@ export class GradientManager {
     }
     for (const el of toRemove) el.remove();
     this.gradientIds.clear();
+    this.nextId = 0;
+  }
+
+  /** Remove the gradients whose ids are not in `used`, keeping the rest cached */
+  prune(used: Set<string>): void {
+    for (const [key, id] of Array.from(this.gradientIds)) {
+      if (used.has(id)) continue;
+      this.defs.querySelector(`[id="${id}"]`)?.remove();
+      this.gradientIds.delete(key);
+    }
+  }
+
+  // ─── Definitions ────────────────────────────────────────────────
+
+  /** Node shadow, link glow and node glow filters, with ids `${prefix}-node-shadow` etc. */
+  static filterMarkup(prefix = 'sankey', shadowColor = THEMES.dark.nodeShadow): SvgElement[] {
+    const filter = (name: string, x: string, y: string, width: string, height: string, children: SvgElement[]) =>
+      svgElement('filter', { id: `${prefix}-${name}`, x, y, width, height }, children);
+    const glow = (stdDeviation: string) => [
+      svgElement('feGaussianBlur', { in: 'SourceGraphic', stdDeviation, result: 'blur' }),
+      svgElement('feMerge', {}, ['blur', 'SourceGraphic'].map(input => svgElement('feMergeNode', { in: input }))),
+    ];
+
+    return [
+      // ── Node shadow: subtle ──
+      filter('node-shadow', '-20%', '-20%', '140%', '140%', [
+        svgElement('feDropShadow', { dx: '0', dy: '1', stdDeviation: '2', 'flood-color': shadowColor, 'flood-opacity': '1' }),
+      ]),
+      // ── Link glow: gentle highlight on hover ──
+      filter('link-glow', '-10%', '-10%', '120%', '120%', glow('1.5')),
+      // ── Node hover glow: subtle brightening ──
+      filter('node-glow', '-30%', '-30%', '160%', '160%', glow('3')),
+    ];
   }
 
-  private createFilter(id: string, x: string, y: string, w: string, h: string): SVGFilterElement {
-    const filter = document.createElementNS(SVG_NS, 'filter');
-    filter.setAttribute('id', id);
-    filter.setAttribute('x', x);
-    filter.setAttribute('y', y);
-    filter.setAttribute('width', w);
-    filter.setAttribute('height', h);
-    return filter;
+  /**
+   * Spans each ribbon's own bounding box, so one definition serves every link
+   * with the same colors. Loops run against the flow, so theirs is reversed.
+   */
+  static linkGradientMarkup(id: string, link: SankeyLink, orientation: Orientation = 'horizontal'): SvgElement {
+    const [from, to] = isBackward(link, orientation) ? ['1', '0'] : ['0', '1'];
+    const coords = orientation === 'vertical'
+      ? { x1: '0', x2: '0', y1: from, y2: to }
+      : { x1: from, x2: to, y1: '0', y2: '0' };
+
+    // Clean two-stop gradient — no muddy midpoint
+    return GradientManager.gradient({ id, gradientUnits: 'objectBoundingBox', ...coords }, [
+      { offset: '0%', color: link.source.color || '#888', opacity: '1' },
+      { offset: '100%', color: link.target.color || '#888', opacity: '1' },
+    ]);
   }
 
-  private el(tag: string, attrs: Record<string, string>): SVGElement {
-    const el = document.createElementNS(SVG_NS, tag);
-    for (const [k, v] of Object.entries(attrs)) el.setAttribute(k, v);
-    return el;
+  /** Node sheen around `baseColor`; colors other than #rgb/#rrggbb (alpha, rgb(), hsl()) stay flat */
+  static nodeGradientMarkup(id: string, baseColor: string): SvgElement {
+    const attrs = { id, x1: '0', y1: '0', x2: '0.3', y2: '1' };
+    if (!GradientManager.parseHex(baseColor)) {
+      return GradientManager.gradient(attrs, [
+        { offset: '0%', color: baseColor, opacity: '1' },
+        { offset: '100%', color: baseColor, opacity: '1' },
+      ]);
+    }
+    return GradientManager.gradient(attrs, [
+      { offset: '0%', color: GradientManager.lighten(baseColor, 6), opacity: '1' },
+      { offset: '100%', color: GradientManager.darken(baseColor, 6), opacity: '0.95' },
+    ]);
   }
 
-  private appendFilterElements(filter: SVGFilterElement, elements: SVGElement[]): void {
-    for (const el of elements) filter.appendChild(el);
+  private static gradient(
+    attrs: Record<string, string>,
+    stops: Array<{ offset: string; color: string; opacity: string }>,
+  ): SvgElement {
+    return svgElement('linearGradient', attrs, stops.map(({ offset, color, opacity }) =>
+      svgElement('stop', { offset, 'stop-color': color, 'stop-opacity': opacity })));
   }
 
-  private parseHex(hex: string): [number, number, number] {
-    const n = parseInt(hex.replace('#', ''), 16);
+  // ─── Colors ─────────────────────────────────────────────────────
+
+  /** Channels of an opaque #rgb or #rrggbb color; null for any other format */
+  private static parseHex(color: string): [number, number, number] | null {
+    const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+    if (!match) return null;
+    const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+    const n = parseInt(digits, 16);
     return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
   }
 
-  private toHex(r: number, g: number, b: number): string {
+  private static toHex(r: number, g: number, b: number): string {
     return '#' + ((r << 16) | (g << 8) | b).toString(16).padStart(6, '0');
   }
 
-  private lighten(hex: string, pct: number): string {
-    const [r, g, b] = this.parseHex(hex);
+  private static lighten(hex: string, pct: number): string {
+    const [r, g, b] = GradientManager.parseHex(hex)!;
     const amt = Math.round(255 * pct / 100);
-    return this.toHex(
+    return GradientManager.toHex(
       Math.min(255, r + amt),
       Math.min(255, g + amt),
       Math.min(255, b + amt),
     );
   }
 
-  private darken(hex: string, pct: number): string {
-    const [r, g, b] = this.parseHex(hex);
+  private static darken(hex: string, pct: number): string {
+    const [r, g, b] = GradientManager.parseHex(hex)!;
     const amt = Math.round(255 * pct / 100);
-    return this.toHex(
+    return GradientManager.toHex(
       Math.max(0, r - amt),
       Math.max(0, g - amt),
       Math.max(0, b - amt),
     );
   }
 
-  private blendColors(hex1: string, hex2: string, t: number): string {
-    const [r1, g1, b1] = this.parseHex(hex1);
-    const [r2, g2, b2] = this.parseHex(hex2);
-    return this.toHex(
+  /** Mix two colors; when either isn't #rgb/#rrggbb, the nearer one is used as is */
+  private static blendColors(hex1: string, hex2: string, t: number): string {
+    const c1 = GradientManager.parseHex(hex1);
+    const c2 = GradientManager.parseHex(hex2);
+    if (!c1 || !c2) return t < 0.5 ? hex1 : hex2;
+    const [r1, g1, b1] = c1;
+    const [r2, g2, b2] = c2;
+    return GradientManager.toHex(
       Math.round(r1 + (r2 - r1) * t),
       Math.round(g1 + (g2 - g1) * t),
       Math.round(b1 + (b2 - b1) * t),
     );
   }
 }
+
+/** Whether a link's target lies before its source along the flow, as for loops */
+function isBackward(link: SankeyLink, orientation: Orientation): boolean {
+  return orientation === 'vertical'
+    ? link.target.y < link.source.y + link.source.height
+    : link.target.x < link.source.x + link.source.width;
+}
@@ -0,0 +1,34 @@
+import type { SVGStringOptions } from './string.js';
+
+export interface PNGExportOptions extends SVGStringOptions {
+  /** Pixels per chart unit (default: the screen's pixel ratio, at least 2) */
+  scale?: number;
+}
+
+/**
+ * Draw a standalone SVG document onto an offscreen canvas and encode it as
+ * PNG. The SVG is loaded as an image, so it must not reference anything
+ * outside itself — `renderToSVGString` output qualifies.
+ */
+export function rasterizeSVG(svg: string, width: number, height: number, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob);
+        else reject(new Error('PNG encoding failed'));
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error('SVG could not be loaded as an image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
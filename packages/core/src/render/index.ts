@@ -1,2 +1,7 @@
 export { SankeyRenderer } from './renderer.js';
+export { renderToSVGString } from './string.js';
+export { rasterizeSVG } from './image.js';
+export { CanvasRenderer } from './canvas.js';
 export { GradientManager } from './gradient.js';
+export { THEMES, resolveTheme } from './theme.js';
+export { DiagnosticsOverlay } from './overlay.js';
@@ -0,0 +1,231 @@
+import type { SankeyConfig, SankeyNode, SankeyLink, JourneyMetrics, SankeyTheme } from '../types/index.js';
+import { linkKey } from '../identity.js';
+import { PathGenerator } from '../layout/path.js';
+import { resolveTheme } from './theme.js';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * A DOM-free description of an SVG element. The interactive renderer turns
+ * these into elements (`toDOM`); `renderToSVGString` serializes them, so both
+ * draw exactly the same chart.
+ */
+export interface SvgElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children?: SvgElement[];
+  text?: string;
+}
+
+export function svgElement(tag: string, attrs: Record<string, string>, children?: SvgElement[]): SvgElement {
+  return children ? { tag, attrs, children } : { tag, attrs };
+}
+
+export function toDOM(desc: SvgElement): SVGElement {
+  const el = document.createElementNS(SVG_NS, desc.tag) as SVGElement;
+  for (const [k, v] of Object.entries(desc.attrs)) el.setAttribute(k, v);
+  if (desc.text !== undefined) el.textContent = desc.text;
+  for (const child of desc.children ?? []) el.appendChild(toDOM(child));
+  return el;
+}
+
+export function serialize(desc: SvgElement): string {
+  const attrs = Object.entries(desc.attrs).map(([k, v]) => ` ${k}="${escapeXml(v)}"`).join('');
+  if (desc.text === undefined && !desc.children?.length) return `<${desc.tag}${attrs}/>`;
+  const inner = (desc.text !== undefined ? escapeXml(desc.text) : '') +
+    (desc.children ?? []).map(serialize).join('');
+  return `<${desc.tag}${attrs}>${inner}</${desc.tag}>`;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ─── Chart elements ─────────────────────────────────────────────────
+
+/** A link ribbon; circular links get a dashed outline in the fill color */
+export function linkMarkup(link: SankeyLink, config: SankeyConfig, fill: string): SvgElement {
+  const attrs: Record<string, string> = {
+    d: PathGenerator.linkArea(link, config.orientation),
+    'data-link-id': linkKey(link),
+    'data-source': link.source.id,
+    'data-target': link.target.id,
+    fill,
+    'fill-opacity': String(config.linkOpacity),
+  };
+  if (link.circular) {
+    // Loops get a dashed outline so they read as returning flow
+    attrs['data-circular'] = 'true';
+    attrs.stroke = fill;
+    attrs['stroke-opacity'] = String(config.linkOpacity);
+    attrs['stroke-dasharray'] = config.circularLinkDash;
+  } else {
+    attrs.stroke = 'none';
+  }
+  return svgElement('path', attrs);
+}
+
+/** Drawn height of a node: at least 2px, so tiny nodes stay visible and hoverable */
+export function nodeHeight(node: SankeyNode): number {
+  return Math.max(2, node.height);
+}
+
+export function nodeMarkup(node: SankeyNode, fill: string, filter: string): SvgElement {
+  const h = nodeHeight(node);
+  const rx = Math.min(3, h / 2, node.width / 2);
+  return svgElement('rect', {
+    'data-node-id': node.id,
+    x: String(node.x),
+    y: String(node.y),
+    width: String(node.width),
+    height: String(h),
+    rx: String(rx),
+    ry: String(rx),
+    fill,
+    filter,
+  });
+}
+
+/**
+ * A node's name, value and, on thick enough nodes, percentage badge: share
+ * of flow reaching a goal given goal `metrics`, else share continuing on.
+ */
+export function labelMarkup(
+  node: SankeyNode,
+  maxDepth: number,
+  config: SankeyConfig,
+  metrics?: Map<string, JourneyMetrics>,
+): SvgElement {
+  const vertical = config.orientation === 'vertical';
+  const theme = resolveTheme(config.theme);
+  const labelText = config.nodeLabel ? config.nodeLabel(node) : node.label;
+
+  // Labels follow the flow: after the node, except for the last column
+  const isAfter = node.depth < maxDepth;
+  const gap = 8;
+  const centerX = node.x + node.width / 2;
+  const centerY = node.y + node.height / 2;
+  const labelX = vertical
+    ? centerX
+    : isAfter ? node.x + node.width + gap : node.x - gap;
+  const anchor = vertical ? 'middle' : isAfter ? 'start' : 'end';
+
+  const isSource = node.targetLinks.length === 0;
+  const displayValue = (isSource ? node.sourceLinks : node.targetLinks).reduce((s, l) => s + l.value, 0);
+
+  const nameEl = text(theme, labelX, anchor, theme.labelColor, 12, '600', node.id);
+  const valueEl = text(theme, labelX, anchor, theme.valueColor, 11, '400', node.id);
+  valueEl.text = formatNumber(displayValue);
+
+  if (vertical) {
+    // Name and value stacked below the node, or above it in the last row
+    const nameY = isAfter ? node.y + node.height + gap + 11 : node.y - gap - 15;
+    nameEl.attrs.y = String(nameY);
+    nameEl.text = labelText;
+    valueEl.attrs.y = String(nameY + 15);
+  } else if (node.height >= 28) {
+    nameEl.attrs.y = String(centerY - 4);
+    nameEl.text = labelText;
+    valueEl.attrs.y = String(centerY + 11);
+  } else {
+    nameEl.attrs.y = String(centerY);
+    nameEl.attrs.dy = '0.35em';
+    nameEl.text = `${labelText}  ${formatNumber(displayValue)}`;
+    valueEl.attrs.display = 'none';
+  }
+
+  const g = svgElement('g', { class: 'sankey-label-group' }, [nameEl, valueEl]);
+
+  const badge = nodeBadge(node, config, metrics);
+  if (badge) {
+    g.children!.push(svgElement('rect', {
+      x: String(badge.x - badge.width / 2),
+      y: String(badge.y - badge.height / 2),
+      width: String(badge.width),
+      height: String(badge.height),
+      rx: '6',
+      fill: theme.badgeBackground,
+    }));
+
+    const pctEl = text(theme, badge.x, 'middle', theme.badgeColor, 9, '600');
+    pctEl.attrs.y = String(badge.y);
+    pctEl.attrs.dy = '0.35em';
+    pctEl.text = badge.text;
+    g.children!.push(pctEl);
+  }
+
+  return g;
+}
+
+/** A node's percentage badge, centered on the node, as drawn by every backend */
+export interface NodeBadge {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The badge on a thick enough node: share of flow reaching a goal given goal
+ * `metrics`, else share continuing past the node; null when there is none.
+ */
+export function nodeBadge(
+  node: SankeyNode,
+  config: SankeyConfig,
+  metrics?: Map<string, JourneyMetrics>,
+): NodeBadge | null {
+  // Node thickness across the flow decides whether the badge fits
+  const thickness = config.orientation === 'vertical' ? node.width : node.height;
+  const inflow = node.targetLinks.reduce((s, l) => s + l.value, 0);
+  const outflow = node.sourceLinks.reduce((s, l) => s + l.value, 0);
+  const isSource = node.targetLinks.length === 0;
+  const isSink = node.sourceLinks.length === 0;
+
+  const goalRate = metrics?.get(node.id)?.goalRate;
+  const rate = metrics
+    ? (goalRate !== undefined && !isSink && !config.goals?.includes(node.id) ? goalRate : undefined)
+    : (!isSource && !isSink && inflow > 0 ? outflow / inflow : undefined);
+  if (thickness < 44 || rate === undefined) return null;
+
+  const pct = Math.round(rate * 100);
+  return {
+    text: `${pct}%`,
+    x: node.x + node.width / 2,
+    y: node.y + node.height / 2,
+    width: pct === 100 ? 32 : 26,
+    height: 13,
+  };
+}
+
+/** Label text in the theme's font, outlined with its halo when it has one */
+function text(
+  theme: SankeyTheme, x: number, anchor: string, fill: string, size: number, weight: string, nodeId?: string,
+): SvgElement {
+  const el = svgElement('text', {
+    x: String(x),
+    'text-anchor': anchor,
+    fill,
+    'font-size': String(size),
+    'font-weight': weight,
+    'font-family': theme.fontFamily,
+  });
+  if (nodeId) el.attrs['data-node-id'] = nodeId;
+  if (theme.labelHalo !== 'none') {
+    el.attrs.stroke = theme.labelHalo;
+    el.attrs['stroke-width'] = '3';
+    el.attrs['stroke-linejoin'] = 'round';
+    el.attrs['paint-order'] = 'stroke';
+  }
+  return el;
+}
+
+export function formatNumber(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+  return n.toLocaleString();
+}
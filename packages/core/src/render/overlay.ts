@@ -0,0 +1,67 @@
+import type { SankeyConfig, SankeyDiagnostics } from '../types/index.js';
+import { DiagnosticsAnalyzer } from '../transforms/diagnostics.js';
+import { resolveTheme } from './theme.js';
+
+/**
+ * Compact data-quality warning in the chart's top-left corner, shown when
+ * `diagnosticsOverlay` is on and the data has issues. One line per kind of
+ * issue; the full report is available from `SankeyChart.getDiagnostics()`.
+ * Styled like the tooltip, from the theme, with an accent-colored border.
+ */
+export class DiagnosticsOverlay {
+  private element: HTMLDivElement;
+  private config: SankeyConfig;
+
+  constructor(container: HTMLElement, config: SankeyConfig) {
+    this.config = config;
+    this.element = document.createElement('div');
+    this.element.className = 'sankey-diagnostics';
+    this.element.setAttribute('role', 'status');
+    Object.assign(this.element.style, {
+      position: 'absolute',
+      top: '6px',
+      left: '6px',
+      display: 'none',
+      maxWidth: '60%',
+      padding: '4px 8px',
+      borderRadius: '6px',
+      fontSize: '11px',
+      lineHeight: '1.45',
+      pointerEvents: 'none',
+      zIndex: '9999',
+    });
+    this.applyTheme();
+    container.style.position = 'relative';
+    container.appendChild(this.element);
+  }
+
+  /** Show the issues in `diagnostics`, or hide when there are none */
+  update(diagnostics: SankeyDiagnostics | null): void {
+    const lines = diagnostics && this.config.diagnosticsOverlay
+      ? DiagnosticsAnalyzer.summarize(diagnostics)
+      : [];
+    this.applyTheme();
+    this.element.replaceChildren();
+    this.element.style.display = lines.length > 0 ? 'block' : 'none';
+
+    for (const [i, line] of lines.entries()) {
+      const row = document.createElement('div');
+      row.textContent = i === 0 ? `⚠ ${line}` : line;
+      this.element.appendChild(row);
+    }
+  }
+
+  private applyTheme(): void {
+    const theme = resolveTheme(this.config.theme);
+    Object.assign(this.element.style, {
+      background: theme.tooltipBackground,
+      color: theme.tooltipColor,
+      border: `1px solid ${theme.accentColor}`,
+      fontFamily: theme.fontFamily,
+    });
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+}
@@ -1,6 +1,10 @@
-import type { SankeyGraph, SankeyConfig, SankeyNode, SankeyLink } from '../types/index.js';
+import type { SankeyGraph, SankeyConfig, SankeyNode, SankeyLink, JourneyMetrics } from '../types/index.js';
+import { linkKey } from '../identity.js';
 import { PathGenerator } from '../layout/path.js';
 import { GradientManager } from './gradient.js';
+import { toDOM, linkMarkup, nodeMarkup, labelMarkup } from './markup.js';
+import type { SvgElement } from './markup.js';
+import { resolveTheme } from './theme.js';
 
 const SVG_NS = 'http://www.w3.org/2000/svg';
 
@@ -9,7 +13,8 @@ const TRANSITION_FAST = 'fill-opacity 0.3s ease, filter 0.3s ease, opacity 0.3s
 
 /**
  * CSP-safe SVG renderer — no <style> tags, no @keyframes.
- * All styling via inline style attributes and JS-driven fade-in.
+ * All styling via inline style attributes, JS-driven fades and attribute
+ * tweens between renders.
  */
 export class SankeyRenderer {
   private svg!: SVGSVGElement;
@@ -21,6 +26,13 @@ export class SankeyRenderer {
   private config: SankeyConfig;
   private container: HTMLElement;
   private animationFrame: number | null = null;
+  /** Elements fading out, removed when the transition ends or the next render starts */
+  private exiting: SVGElement[] = [];
+  /** The transition `animationFrame` is driving, if any */
+  private transition: Transition | null = null;
+  /** Depth of the last column and badge metrics of the last render, for redrawing a dragged node's label */
+  private maxDepth = 0;
+  private metrics?: Map<string, JourneyMetrics>;
 
   constructor(container: HTMLElement, config: SankeyConfig) {
     this.container = container;
@@ -51,17 +63,59 @@ export class SankeyRenderer {
     this.svg.appendChild(this.labelsGroup);
 
     this.gradients = new GradientManager(this.defs);
-    this.gradients.ensureFilters();
+    this.gradients.ensureFilters(resolveTheme(this.config.theme).nodeShadow);
     this.container.appendChild(this.svg);
   }
 
-  render(graph: SankeyGraph): void {
+  /**
+   * Draw `graph`; with journey metrics with goals, by node id, the percentage
+   * badge shows goal reach. The first render fades in; later ones update the
+   * drawn nodes, links and labels by id, tweening them to their new geometry
+   * while new ones fade in and removed ones fade out. Without `animate` the
+   * update is immediate.
+   */
+  render(graph: SankeyGraph, metrics?: Map<string, JourneyMetrics>, animate = true): void {
     this.cancelAnimation();
-    this.clear();
-    this.renderLinks(graph.links);
-    this.renderNodes(graph.nodes);
-    this.renderLabels(graph.nodes);
-    this.animateEntrance();
+    this.flushExits();
+    this.metrics = metrics;
+    this.maxDepth = graph.nodes.reduce((max, n) => Math.max(max, n.depth), 0);
+    const initial = !this.linksGroup.firstChild && !this.nodesGroup.firstChild && !this.labelsGroup.firstChild;
+    const transition: Transition | null = animate && !initial && this.config.transitionDuration > 0
+      ? { tweens: [], entering: [] }
+      : null;
+    this.gradients.ensureFilters(resolveTheme(this.config.theme).nodeShadow);
+    this.renderLinks(graph.links, transition);
+    this.renderNodes(graph.nodes, transition);
+    this.renderLabels(graph.nodes, transition);
+    this.pruneGradients();
+    if (initial) this.animateEntrance();
+    else if (transition) this.animateTransition(transition);
+  }
+
+  /**
+   * Redraw a dragged node where it now is, with its links and label; the
+   * rest of the chart is untouched. A running transition is completed first.
+   */
+  moveNode(node: SankeyNode): void {
+    this.finishTransition();
+    const rect = (Array.from(this.nodesGroup.children) as SVGElement[])
+      .find(el => el.getAttribute('data-node-id') === node.id);
+    if (rect) this.patchAttributes(rect, nodeMarkup(node, rect.getAttribute('fill')!, rect.getAttribute('filter')!), [], null);
+
+    const paths = new Map(Array.from(this.linksGroup.children, el => [el.getAttribute('data-link-id'), el as SVGElement]));
+    for (const link of [...node.sourceLinks, ...node.targetLinks]) {
+      const path = paths.get(linkKey(link));
+      if (path) path.setAttribute('d', PathGenerator.linkArea(link, this.config.orientation));
+    }
+
+    for (const g of Array.from(this.labelsGroup.children) as SVGElement[]) {
+      if (g.querySelector('text')?.getAttribute('data-node-id') !== node.id) continue;
+      while (g.firstChild) g.removeChild(g.firstChild);
+      for (const child of labelMarkup(node, this.maxDepth, this.config, this.metrics).children ?? []) {
+        g.appendChild(toDOM(child));
+      }
+      this.fixLabelTexts(g);
+    }
   }
 
   resize(width: number, height: number): void {
@@ -69,20 +123,150 @@ export class SankeyRenderer {
     this.svg.setAttribute('height', String(height));
   }
 
+  setVisible(visible: boolean): void {
+    this.svg.style.display = visible ? '' : 'none';
+  }
+
   getSVG(): SVGSVGElement { return this.svg; }
   getNodesGroup(): SVGGElement { return this.nodesGroup; }
   getLinksGroup(): SVGGElement { return this.linksGroup; }
 
   destroy(): void {
     this.cancelAnimation();
+    this.flushExits();
     this.svg.remove();
   }
 
-  private clear(): void {
-    this.gradients.clear();
-    for (const g of [this.linksGroup, this.nodesGroup, this.labelsGroup]) {
-      while (g.firstChild) g.removeChild(g.firstChild);
+  // ─── Keyed updates ────────────────────────────────────────────────
+
+  /**
+   * Bring a group's children in line with `items`, matched by key: matching
+   * elements are patched in place, new ones created, and the rest leave.
+   * Children end up in `items` order; leaving ones trail behind.
+   */
+  private sync(
+    group: SVGGElement,
+    items: Array<{ key: string; desc: SvgElement }>,
+    keyOf: (el: Element) => string | null,
+    create: (desc: SvgElement) => SVGElement,
+    patch: (el: SVGElement, desc: SvgElement) => void,
+    transition: Transition | null,
+  ): void {
+    const current = new Map<string, SVGElement>();
+    for (const el of Array.from(group.children) as SVGElement[]) {
+      const key = keyOf(el);
+      if (key !== null && !current.has(key)) current.set(key, el);
+      else this.exit(el, transition);
+    }
+
+    const keys = new Set(items.map(item => item.key));
+    const staying = (el: Element | null): Element | null => {
+      while (el && !keys.has(keyOf(el) ?? '')) el = el.nextElementSibling;
+      return el;
+    };
+    // Only out-of-order elements move, so one under the pointer keeps its hover
+    let cursor = staying(group.firstElementChild);
+    for (const { key, desc } of items) {
+      let el = current.get(key);
+      if (el) {
+        current.delete(key);
+        patch(el, desc);
+        // Still waiting for an interrupted fade-in
+        if (el.style.opacity === '0') el.style.opacity = '1';
+      } else {
+        el = create(desc);
+        if (transition) {
+          el.style.opacity = '0';
+          transition.entering.push(el);
+        }
+      }
+      if (el === cursor) cursor = staying(cursor.nextElementSibling);
+      else group.insertBefore(el, cursor);
     }
+    for (const el of current.values()) this.exit(el, transition);
+  }
+
+  /** Set `desc`'s attributes on `el`, tweening the `tweened` ones during a transition */
+  private patchAttributes(
+    el: SVGElement, desc: SvgElement, tweened: readonly string[], transition: Transition | null,
+  ): void {
+    for (const name of el.getAttributeNames()) {
+      if (name !== 'style' && !(name in desc.attrs)) el.removeAttribute(name);
+    }
+    for (const [name, value] of Object.entries(desc.attrs)) {
+      const from = el.getAttribute(name);
+      const at = transition && from !== null && from !== value && tweened.includes(name)
+        ? interpolateNumbers(from, value)
+        : null;
+      if (at) transition!.tweens.push(t => el.setAttribute(name, at(t)));
+      else el.setAttribute(name, value);
+    }
+  }
+
+  private exit(el: SVGElement, transition: Transition | null): void {
+    if (!transition) {
+      el.remove();
+      return;
+    }
+    el.style.opacity = '0';
+    el.style.pointerEvents = 'none';
+    this.exiting.push(el);
+  }
+
+  /** Remove elements that were fading out, and the gradients only they used */
+  private flushExits(): void {
+    if (!this.exiting.length) return;
+    for (const el of this.exiting) el.remove();
+    this.exiting = [];
+    this.pruneGradients();
+  }
+
+  /** Drop gradients no drawn link or node (fading ones included) refers to any more */
+  private pruneGradients(): void {
+    const used = new Set<string>();
+    for (const el of [...Array.from(this.linksGroup.children), ...Array.from(this.nodesGroup.children)]) {
+      const id = /^url\(#(.+)\)$/.exec(el.getAttribute('fill') ?? '')?.[1];
+      if (id) used.add(id);
+    }
+    this.gradients.prune(used);
+  }
+
+  /** Jump a running transition to its end state */
+  private finishTransition(): void {
+    const transition = this.transition;
+    if (!transition) return;
+    this.cancelAnimation();
+    for (const el of transition.entering) el.style.opacity = '1';
+    for (const tween of transition.tweens) tween(1);
+    this.flushExits();
+  }
+
+  /**
+   * One rAF loop drives the attribute tweens; fades run on the elements'
+   * inline opacity transitions. Interrupting it leaves elements mid-way,
+   * and the next render tweens on from there.
+   */
+  private animateTransition(transition: Transition): void {
+    this.transition = transition;
+    const duration = this.config.transitionDuration;
+    let start: number | null = null;
+    const tick = (now: number) => {
+      if (start === null) {
+        start = now;
+        for (const el of transition.entering) el.style.opacity = '1';
+      }
+      const t = Math.min(1, (now - start) / duration);
+      const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+      for (const tween of transition.tweens) tween(eased);
+      if (t < 1) {
+        this.animationFrame = requestAnimationFrame(tick);
+      } else {
+        this.animationFrame = null;
+        this.transition = null;
+        this.flushExits();
+      }
+    };
+    this.animationFrame = requestAnimationFrame(tick);
   }
 
   // ─── JS-driven staggered fade-in (no @keyframes needed) ──────────
@@ -138,144 +322,111 @@ export class SankeyRenderer {
       cancelAnimationFrame(this.animationFrame);
       this.animationFrame = null;
     }
+    this.transition = null;
   }
 
   // ─── Links ────────────────────────────────────────────────────────
 
-  private renderLinks(links: SankeyLink[]): void {
-    for (const link of links) {
-      const path = document.createElementNS(SVG_NS, 'path');
-
-      path.setAttribute('d', PathGenerator.linkArea(link));
-      path.setAttribute('data-link-id', `${link.source.id}→${link.target.id}`);
-      path.setAttribute('data-source', link.source.id);
-      path.setAttribute('data-target', link.target.id);
-      path.setAttribute('fill', `url(#${this.gradients.getGradientId(link)})`);
-      path.setAttribute('fill-opacity', String(this.config.linkOpacity));
-      path.setAttribute('stroke', 'none');
+  private renderLinks(links: SankeyLink[], transition: Transition | null): void {
+    const items = links.map(link => {
+      const fill = GradientManager.linkColor(link, this.config)
+        ?? `url(#${this.gradients.getGradientId(link, this.config.orientation)})`;
+      return { key: linkKey(link), desc: linkMarkup(link, this.config, fill) };
+    });
+    this.sync(this.linksGroup, items, el => el.getAttribute('data-link-id'), desc => {
+      const path = toDOM(desc);
       path.style.transition = TRANSITION_FAST;
       path.style.cursor = 'pointer';
-
-      this.linksGroup.appendChild(path);
-    }
+      return path;
+    }, (el, desc) => this.patchAttributes(el, desc, ['d'], transition), transition);
   }
 
   // ─── Nodes ────────────────────────────────────────────────────────
 
-  private renderNodes(nodes: SankeyNode[]): void {
-    for (const node of nodes) {
-      const h = Math.max(2, node.height);
-      const color = node.color || '#888';
-      const rx = Math.min(3, h / 2, node.width / 2);
-
-      const rect = document.createElementNS(SVG_NS, 'rect');
-      rect.setAttribute('data-node-id', node.id);
-      rect.setAttribute('x', String(node.x));
-      rect.setAttribute('y', String(node.y));
-      rect.setAttribute('width', String(node.width));
-      rect.setAttribute('height', String(h));
-      rect.setAttribute('rx', String(rx));
-      rect.setAttribute('ry', String(rx));
-      rect.setAttribute('fill', `url(#${this.gradients.getNodeGradientId(node.id, color)})`);
-      rect.setAttribute('filter', 'url(#sankey-node-shadow)');
+  private renderNodes(nodes: SankeyNode[], transition: Transition | null): void {
+    const items = nodes.map(node => {
+      const fill = `url(#${this.gradients.getNodeGradientId(node.id, node.color || '#888')})`;
+      return { key: node.id, desc: nodeMarkup(node, fill, 'url(#sankey-node-shadow)') };
+    });
+    this.sync(this.nodesGroup, items, el => el.getAttribute('data-node-id'), desc => {
+      const rect = toDOM(desc);
       rect.style.transition = TRANSITION_FAST;
       rect.style.cursor = this.config.draggable ? 'grab' : 'pointer';
-
-      this.nodesGroup.appendChild(rect);
-    }
+      return rect;
+    }, (el, desc) => {
+      this.patchAttributes(el, desc, NODE_GEOMETRY, transition);
+      el.style.cursor = this.config.draggable ? 'grab' : 'pointer';
+    }, transition);
   }
 
   // ─── Labels ───────────────────────────────────────────────────────
 
-  private renderLabels(nodes: SankeyNode[]): void {
-    const maxDepth = Math.max(...nodes.map(n => n.depth), 0);
-
-    for (const node of nodes) {
-      const labelText = this.config.nodeLabel
-        ? this.config.nodeLabel(node)
-        : node.label;
-
-      const isRight = node.depth < maxDepth;
-      const gap = 8;
-      const labelX = isRight
-        ? node.x + node.width + gap
-        : node.x - gap;
-      const anchor = isRight ? 'start' : 'end';
-      const centerY = node.y + node.height / 2;
-
-      const inflow = node.targetLinks.reduce((s, l) => s + l.value, 0);
-      const outflow = node.sourceLinks.reduce((s, l) => s + l.value, 0);
-      const isSource = node.targetLinks.length === 0;
-      const isSink = node.sourceLinks.length === 0;
-      const displayValue = isSource ? outflow : inflow;
-
-      const g = document.createElementNS(SVG_NS, 'g');
-      g.setAttribute('class', 'sankey-label-group');
+  private renderLabels(nodes: SankeyNode[], transition: Transition | null): void {
+    const items = nodes.map(node => ({ key: node.id, desc: labelMarkup(node, this.maxDepth, this.config, this.metrics) }));
+    const keyOf = (g: Element) => g.querySelector('text')?.getAttribute('data-node-id') ?? null;
+
+    this.sync(this.labelsGroup, items, keyOf, desc => {
+      const g = toDOM(desc);
       g.style.pointerEvents = 'none';
       g.style.transition = 'opacity 0.3s ease';
-
-      const nameEl = this.makeText(labelX, anchor, '#d4d4e0', 12, '600', node.id);
-      const valueEl = this.makeText(labelX, anchor, '#7a7a96', 11, '400', node.id);
-      valueEl.textContent = this.formatNumber(displayValue);
-
-      if (node.height >= 28) {
-        nameEl.setAttribute('y', String(centerY - 4));
-        nameEl.textContent = labelText;
-        valueEl.setAttribute('y', String(centerY + 11));
-      } else {
-        nameEl.setAttribute('y', String(centerY));
-        nameEl.setAttribute('dy', '0.35em');
-        nameEl.textContent = `${labelText}  ${this.formatNumber(displayValue)}`;
-        valueEl.style.display = 'none';
-      }
-
-      g.appendChild(nameEl);
-      g.appendChild(valueEl);
-
-      if (node.height >= 44 && !isSource && !isSink && inflow > 0) {
-        const pct = Math.round((outflow / inflow) * 100);
-        const badgeW = pct === 100 ? 32 : 26;
-        const badgeH = 13;
-
-        const pill = document.createElementNS(SVG_NS, 'rect');
-        pill.setAttribute('x', String(node.x + node.width / 2 - badgeW / 2));
-        pill.setAttribute('y', String(centerY - badgeH / 2));
-        pill.setAttribute('width', String(badgeW));
-        pill.setAttribute('height', String(badgeH));
-        pill.setAttribute('rx', '6');
-        pill.setAttribute('fill', 'rgba(0,0,0,0.4)');
-        g.appendChild(pill);
-
-        const pctEl = this.makeText(node.x + node.width / 2, 'middle', '#e0e0ea', 9, '600');
-        pctEl.setAttribute('y', String(centerY));
-        pctEl.setAttribute('dy', '0.35em');
-        pctEl.textContent = `${pct}%`;
-        g.appendChild(pctEl);
+      this.fixLabelTexts(g);
+      return g;
+    }, (g, desc) => {
+      // Text and badge are redrawn; the group slides over from where the old name was
+      const before = labelAnchor(g);
+      while (g.firstChild) g.removeChild(g.firstChild);
+      for (const child of desc.children ?? []) g.appendChild(toDOM(child));
+      this.fixLabelTexts(g);
+      g.removeAttribute('transform');
+      const after = labelAnchor(g);
+      const dx = before.x - after.x;
+      const dy = before.y - after.y;
+      if (transition && (dx || dy)) {
+        transition.tweens.push(t => {
+          if (t < 1) g.setAttribute('transform', `translate(${dx * (1 - t)},${dy * (1 - t)})`);
+          else g.removeAttribute('transform');
+        });
       }
+    }, transition);
+  }
 
-      this.labelsGroup.appendChild(g);
+  private fixLabelTexts(g: SVGElement): void {
+    for (const text of Array.from(g.querySelectorAll('text'))) {
+      text.style.pointerEvents = 'none';
+      text.style.userSelect = 'none';
     }
   }
+}
 
-  // ─── Helpers ──────────────────────────────────────────────────────
-
-  private makeText(x: number, anchor: string, fill: string, size: number, weight: string, nodeId?: string): SVGTextElement {
-    const text = document.createElementNS(SVG_NS, 'text');
-    text.setAttribute('x', String(x));
-    text.setAttribute('text-anchor', anchor);
-    text.setAttribute('fill', fill);
-    text.setAttribute('font-size', String(size));
-    text.setAttribute('font-weight', weight);
-    text.setAttribute('font-family', 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif');
-    text.style.pointerEvents = 'none';
-    text.style.userSelect = 'none';
-    if (nodeId) text.setAttribute('data-node-id', nodeId);
-    return text;
-  }
+/** A keyed update under way: attribute tweens (fed eased progress, 0 to 1) and elements fading in */
+interface Transition {
+  tweens: Array<(t: number) => void>;
+  entering: SVGElement[];
+}
 
-  private formatNumber(n: number): string {
-    if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-    if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
-    return n.toLocaleString();
-  }
+const NODE_GEOMETRY = ['x', 'y', 'width', 'height', 'rx', 'ry'] as const;
+const NUMBER = /-?\d*\.?\d+(?:e[-+]?\d+)?/gi;
+
+/**
+ * Tween between two attribute values that differ only in their numbers, such
+ * as ribbon paths of the same shape; null when the shapes differ (a ribbon
+ * turning into a loop), which then switch at once.
+ */
+function interpolateNumbers(from: string, to: string): ((t: number) => string) | null {
+  const fromParts = from.split(NUMBER);
+  const parts = to.split(NUMBER);
+  if (fromParts.length !== parts.length || fromParts.some((part, i) => part !== parts[i])) return null;
+  const a = (from.match(NUMBER) ?? []).map(Number);
+  const b = (to.match(NUMBER) ?? []).map(Number);
+  return t => parts.reduce((out, part, i) => out + part + (i < b.length ? String(a[i] + (b[i] - a[i]) * t) : ''), '');
+}
+
+/** Where a label group's name text is drawn, including any slide still under way */
+function labelAnchor(g: SVGElement): { x: number; y: number } {
+  const name = g.querySelector('text');
+  const [tx = 0, ty = 0] = (g.getAttribute('transform')?.match(NUMBER) ?? []).map(Number);
+  return {
+    x: Number(name?.getAttribute('x') ?? 0) + tx,
+    y: Number(name?.getAttribute('y') ?? 0) + ty,
+  };
 }
@@ -0,0 +1,87 @@
+import type { SankeyGraph, SankeyConfig } from '../types/index.js';
+import { DEFAULT_CONFIG } from '../types/index.js';
+import { JourneyAnalyzer } from '../transforms/journey.js';
+import { GradientManager } from './gradient.js';
+import { resolveTheme } from './theme.js';
+import { svgElement, serialize, linkMarkup, nodeMarkup, labelMarkup } from './markup.js';
+import type { SvgElement } from './markup.js';
+
+export interface SVGStringOptions {
+  /** Prefix for gradient and filter ids, so several charts can share one page (default 'sankey') */
+  idPrefix?: string;
+  /**
+   * CSS inlined into the document, typically `@font-face` rules with `data:`
+   * URLs, so labels keep their font where it isn't installed. Chart exports
+   * default to the page's rules for the theme font.
+   */
+  fontCSS?: string;
+  /** Fill behind the chart; transparent by default */
+  background?: string;
+}
+
+/**
+ * Render a laid-out graph as a complete, self-contained SVG document — no
+ * DOM needed, so it runs in Node for email reports and PDFs. Draws the same
+ * gradients, filters, labels and badges as `SankeyRenderer`, without the
+ * entrance animation and interaction styles.
+ */
+export function renderToSVGString(
+  graph: SankeyGraph,
+  config: Partial<SankeyConfig> = {},
+  options: SVGStringOptions = {},
+): string {
+  const cfg: SankeyConfig = { ...DEFAULT_CONFIG, ...config };
+  const prefix = options.idPrefix ?? 'sankey';
+  const defs: SvgElement[] = GradientManager.filterMarkup(prefix, resolveTheme(cfg.theme).nodeShadow);
+  if (options.fontCSS) defs.unshift({ tag: 'style', attrs: { type: 'text/css' }, text: options.fontCSS });
+
+  // Gradients are shared per color pair and node, as in the interactive renderer
+  const gradientIds = new Map<string, string>();
+  const gradientId = (key: string, build: (id: string) => SvgElement, name: string) => {
+    let id = gradientIds.get(key);
+    if (!id) {
+      id = `${prefix}-${name}-${gradientIds.size}`;
+      gradientIds.set(key, id);
+      defs.push(build(id));
+    }
+    return id;
+  };
+
+  const links = graph.links.map(link => {
+    const key = GradientManager.linkGradientKey(link, cfg.orientation);
+    const fill = GradientManager.linkColor(link, cfg)
+      ?? `url(#${gradientId(key, id => GradientManager.linkGradientMarkup(id, link, cfg.orientation), 'grad')})`;
+    return linkMarkup(link, cfg, fill);
+  });
+
+  const nodes = graph.nodes.map(node => {
+    const color = node.color || '#888';
+    const id = gradientId(`node-${node.id}`, gid => GradientManager.nodeGradientMarkup(gid, color), 'node-grad');
+    return nodeMarkup(node, `url(#${id})`, `url(#${prefix}-node-shadow)`);
+  });
+
+  const badgeGoals = cfg.goals?.length && (cfg.goalDisplay === 'badge' || cfg.goalDisplay === 'both');
+  const metrics = badgeGoals
+    ? new Map(JourneyAnalyzer.analyze(graph, cfg.goals).map(m => [m.nodeId, m]))
+    : undefined;
+  const maxDepth = graph.nodes.reduce((max, n) => Math.max(max, n.depth), 0);
+  const labels = graph.nodes.map(node => labelMarkup(node, maxDepth, cfg, metrics));
+
+  const svg = svgElement('svg', {
+    xmlns: 'http://www.w3.org/2000/svg',
+    width: String(cfg.width),
+    height: String(cfg.height),
+    viewBox: `0 0 ${cfg.width} ${cfg.height}`,
+    class: 'sankey-chart',
+    style: 'overflow:visible',
+  }, [
+    svgElement('defs', {}, defs),
+    ...(options.background
+      ? [svgElement('rect', { width: '100%', height: '100%', fill: options.background })]
+      : []),
+    svgElement('g', { class: 'sankey-links' }, links),
+    svgElement('g', { class: 'sankey-nodes' }, nodes),
+    svgElement('g', { class: 'sankey-labels' }, labels),
+  ]);
+  return serialize(svg);
+}
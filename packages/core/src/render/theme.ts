@@ -0,0 +1,81 @@
+import type { SankeyConfig, SankeyTheme, ThemeName } from '../types/index.js';
+
+const FONT_STACK = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui, sans-serif';
+
+/** Built-in themes: dark for dark dashboards, light for the white canvases of most BI tools */
+export const THEMES: Record<ThemeName, SankeyTheme> = {
+  dark: {
+    fontFamily: FONT_STACK,
+    labelColor: '#d4d4e0',
+    valueColor: '#7a7a96',
+    labelHalo: 'none',
+    badgeBackground: 'rgba(0,0,0,0.4)',
+    badgeColor: '#e0e0ea',
+    linkSolidColor: '#8a8fa3',
+    nodeShadow: 'rgba(0,0,0,0.3)',
+    nodeDimOpacity: 0.2,
+    labelDimOpacity: 0.12,
+    tooltipBackground: 'rgba(15, 15, 30, 0.88)',
+    tooltipBackdrop: 'blur(12px)',
+    tooltipColor: '#f0f0f5',
+    tooltipMutedColor: '#aab',
+    tooltipEmphasisColor: '#fff',
+    tooltipBorder: 'rgba(255,255,255,0.12)',
+    tooltipShadow: '0 8px 32px rgba(0,0,0,0.28), 0 2px 8px rgba(0,0,0,0.15)',
+    positiveColor: '#7bdf9b',
+    negativeColor: '#ff7b7b',
+    accentColor: '#7bdfff',
+  },
+  light: {
+    fontFamily: FONT_STACK,
+    labelColor: '#2b2d3a',
+    valueColor: '#6b6f80',
+    labelHalo: 'rgba(255,255,255,0.85)',
+    badgeBackground: 'rgba(255,255,255,0.8)',
+    badgeColor: '#2b2d3a',
+    linkSolidColor: '#a9aebb',
+    nodeShadow: 'rgba(0,0,0,0.15)',
+    nodeDimOpacity: 0.25,
+    labelDimOpacity: 0.25,
+    tooltipBackground: 'rgba(255, 255, 255, 0.94)',
+    tooltipBackdrop: 'blur(12px)',
+    tooltipColor: '#1f2130',
+    tooltipMutedColor: '#5c6070',
+    tooltipEmphasisColor: '#000',
+    tooltipBorder: 'rgba(0,0,0,0.12)',
+    tooltipShadow: '0 8px 32px rgba(0,0,0,0.12), 0 2px 8px rgba(0,0,0,0.08)',
+    positiveColor: '#2e8a52',
+    negativeColor: '#c8413e',
+    accentColor: '#1f76a8',
+  },
+  'high-contrast': {
+    fontFamily: FONT_STACK,
+    labelColor: '#ffffff',
+    valueColor: '#ffffff',
+    labelHalo: '#000000',
+    badgeBackground: '#000000',
+    badgeColor: '#ffffff',
+    linkSolidColor: '#ffffff',
+    nodeShadow: 'transparent',
+    nodeDimOpacity: 0.35,
+    labelDimOpacity: 0.4,
+    tooltipBackground: '#000000',
+    tooltipBackdrop: 'none',
+    tooltipColor: '#ffffff',
+    tooltipMutedColor: '#ffffff',
+    tooltipEmphasisColor: '#ffff00',
+    tooltipBorder: '#ffffff',
+    tooltipShadow: 'none',
+    positiveColor: '#3ff27a',
+    negativeColor: '#ff6b6b',
+    accentColor: '#4fd8ff',
+  },
+};
+
+/** The tokens a `theme` setting stands for; unknown names fall back to dark */
+export function resolveTheme(theme: SankeyConfig['theme'] | undefined): SankeyTheme {
+  if (typeof theme !== 'object') return THEMES[theme ?? 'dark'] ?? THEMES.dark;
+  const { base, ...tokens } = theme;
+  const overrides = Object.fromEntries(Object.entries(tokens).filter(([, v]) => v !== undefined));
+  return { ...(THEMES[base ?? 'dark'] ?? THEMES.dark), ...overrides };
+}
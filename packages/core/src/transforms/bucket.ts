@@ -0,0 +1,133 @@
+import type { SankeyNode, SankeyLink, SankeyGraph, OtherBucketConfig } from '../types/index.js';
+import { ComparisonTransform } from './comparison.js';
+
+/** Neutral color for merged nodes, so they don't read as a real category */
+const OTHER_COLOR = '#8c919a';
+
+/**
+ * Merges long-tail nodes into a synthetic "Other" node per column.
+ *
+ * - Expects `depth` and `value` on every node (see `SankeyLayout.assignColumns`)
+ * - Pins each "Other" node to the column its members came from
+ * - Merges links that end up between the same pair of nodes (and `category`), summing every measure
+ * - Keeps the original nodes/links in `meta.members` for tooltips and drill-in
+ * - Sums baselines of compared nodes/links (see `ComparisonTransform`)
+ *
+ * Returns a new graph; the input graph is left untouched.
+ */
+export class OtherBucketer {
+  static bucket(graph: SankeyGraph, options: OtherBucketConfig): SankeyGraph {
+    const columns = new Map<number, SankeyNode[]>();
+    for (const node of graph.nodes) {
+      const column = columns.get(node.depth);
+      if (column) column.push(node);
+      else columns.set(node.depth, [node]);
+    }
+
+    // Original node → node in the bucketed graph
+    const mapped = new Map<SankeyNode, SankeyNode>();
+    const label = options.label ?? 'Other';
+
+    for (const [depth, column] of columns) {
+      const members = OtherBucketer.selectMembers(column, options);
+      // Bucketing a single node would only rename it
+      if (members.length < 2) continue;
+
+      const other: SankeyNode = {
+        id: `__other_${depth}`,
+        label,
+        value: 0,
+        depth,
+        x: 0, y: 0,
+        width: 0, height: 0,
+        color: OTHER_COLOR,
+        column: depth,
+        sourceLinks: [],
+        targetLinks: [],
+        meta: { isOther: true, members },
+      };
+      if (members.every(node => node.comparison)) {
+        other.comparison = ComparisonTransform.compare(
+          members.reduce((s, n) => s + n.value, 0),
+          members.reduce((s, n) => s + n.comparison!.baseline, 0),
+        );
+      }
+      for (const node of members) mapped.set(node, other);
+    }
+
+    // Keep the input order; each "Other" node takes its first member's place
+    const nodes: SankeyNode[] = [];
+    const placed = new Set<SankeyNode>();
+    for (const node of graph.nodes) {
+      const other = mapped.get(node);
+      if (other) {
+        if (!placed.has(other)) nodes.push(other);
+        placed.add(other);
+        continue;
+      }
+      const copy: SankeyNode = { ...node, sourceLinks: [], targetLinks: [] };
+      mapped.set(node, copy);
+      nodes.push(copy);
+    }
+
+    const links: SankeyLink[] = [];
+    // Merged links per source, then target and category
+    const byPair = new Map<SankeyNode, Map<string, SankeyLink>>();
+    for (const link of graph.links) {
+      const source = mapped.get(link.source)!;
+      const target = mapped.get(link.target)!;
+      const isMerged = source.meta?.isOther === true || target.meta?.isOther === true;
+
+      const pairKey = JSON.stringify([target.id, link.category ?? '']);
+      let copy = byPair.get(source)?.get(pairKey);
+      if (copy) {
+        copy.value += link.value;
+        if (copy.values && link.values) {
+          for (const [measure, value] of Object.entries(link.values)) {
+            copy.values[measure] = (copy.values[measure] ?? 0) + value;
+          }
+        }
+        if (copy.comparison && link.comparison) {
+          copy.comparison = ComparisonTransform.compare(
+            copy.value, copy.comparison.baseline + link.comparison.baseline);
+        }
+        (copy.meta!.members as SankeyLink[]).push(link);
+        continue;
+      }
+      copy = isMerged
+        ? {
+          source, target, value: link.value, width: 0, sy: 0, ty: 0,
+          values: link.values && { ...link.values },
+          comparison: link.comparison, meta: { members: [link] },
+        }
+        : { ...link, source, target };
+      if (isMerged) {
+        if (link.category !== undefined) {
+          copy.id = JSON.stringify([source.id, target.id, link.category]);
+          copy.category = link.category;
+          copy.color = link.color;
+        }
+        if (!byPair.has(source)) byPair.set(source, new Map());
+        byPair.get(source)!.set(pairKey, copy);
+      }
+      source.sourceLinks.push(copy);
+      target.targetLinks.push(copy);
+      links.push(copy);
+    }
+
+    return { nodes, links };
+  }
+
+  /** Nodes in one column that fail any of the thresholds, largest first */
+  private static selectMembers(column: SankeyNode[], options: OtherBucketConfig): SankeyNode[] {
+    const { minValue, minShare, topN } = options;
+    const total = column.reduce((s, n) => s + n.value, 0);
+    const ranked = [...column].sort((a, b) => b.value - a.value);
+
+    return ranked
+      .filter((node, rank) =>
+        (minValue !== undefined && node.value < minValue) ||
+        (minShare !== undefined && total > 0 && node.value / total < minShare) ||
+        (topN !== undefined && rank >= topN));
+  }
+}
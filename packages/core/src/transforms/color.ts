@@ -0,0 +1,62 @@
+import type { SankeyConfig } from '../types/index.js';
+
+/** #rgb, #rgba, #rrggbb, #rrggbbaa or an rgb()/rgba()/hsl()/hsla() function */
+const LITERAL_COLOR = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgb|hsl)a?\([^()]*\))$/i;
+
+/**
+ * Resolves node colors. In order of precedence:
+ *
+ * 1. A literal color from a color field
+ * 2. `colorMap` entry for the category (color field value, else node id)
+ * 3. A palette color, by first-seen order or a stable hash (`colorAssignment`)
+ *
+ * One mapper per transform: first-seen order is tracked per instance.
+ */
+export class ColorMapper {
+  private palette: string[];
+  private colorMap: Record<string, string>;
+  private assignment: SankeyConfig['colorAssignment'];
+  private assigned = new Map<string, string>();
+
+  constructor(config: Pick<SankeyConfig, 'colorPalette' | 'colorMap' | 'colorAssignment'>) {
+    this.palette = config.colorPalette;
+    this.colorMap = config.colorMap ?? {};
+    this.assignment = config.colorAssignment ?? 'index';
+  }
+
+  /** Color for a node, given its id and optional color field value */
+  color(id: string, value?: unknown): string {
+    const hint = value === null || value === undefined ? '' : String(value).trim();
+    if (ColorMapper.isColor(hint)) return hint;
+    return this.categoryColor(hint || id);
+  }
+
+  /** Color for a category: `colorMap` first, then the palette */
+  categoryColor(category: string): string {
+    const mapped = this.colorMap[category];
+    if (mapped) return mapped;
+
+    let color = this.assigned.get(category);
+    if (!color) {
+      const index = this.assignment === 'hash' ? ColorMapper.hash(category) : this.assigned.size;
+      color = this.palette[index % this.palette.length];
+      this.assigned.set(category, color);
+    }
+    return color;
+  }
+
+  /** Whether a value is a literal CSS color rather than a category */
+  static isColor(value: string): boolean {
+    return LITERAL_COLOR.test(value);
+  }
+
+  /** 32-bit FNV-1a hash: stable across sessions and data sets */
+  static hash(value: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      h ^= value.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+  }
+}
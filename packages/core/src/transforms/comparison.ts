@@ -0,0 +1,78 @@
+import type {
+  SankeyGraph, SankeyNode, SankeyLink, TabularData, TransformConfig, SankeyConfig, RowIssues, ComparisonValues,
+} from '../types/index.js';
+import { linkKey } from '../identity.js';
+import { TabularTransform } from './tabular.js';
+
+/**
+ * Builds a period-over-period graph from two tabular data sets.
+ *
+ * - Ribbons are sized by the current period; flows are matched on `linkKey`
+ * - Every node and link gets `comparison`: its baseline value and the change
+ * - Flows that only exist in the baseline have no current size and are left out
+ * - With several measures, baselines are kept per measure (`baselineValues`),
+ *   so `measure` can switch the comparison along with the values
+ *
+ * Row issues are reported for the current data only.
+ */
+export class ComparisonTransform {
+  static transform(
+    current: TabularData,
+    baseline: TabularData,
+    transformConfig: TransformConfig,
+    sankeyConfig: SankeyConfig,
+    issues?: RowIssues,
+  ): SankeyGraph {
+    const graph = TabularTransform.transform(current, transformConfig, sankeyConfig, issues);
+    const previous = TabularTransform.transform(baseline, transformConfig, sankeyConfig);
+
+    const previousLinks = new Map(previous.links.map(link => [linkKey(link), link]));
+    const previousNodes = new Map(previous.nodes.map(node => [node.id, node]));
+    const measures = Object.keys(graph.links.find(l => l.values)?.values ?? {});
+
+    for (const link of graph.links) {
+      const before = previousLinks.get(linkKey(link));
+      if (measures.length) {
+        link.baselineValues = Object.fromEntries(measures.map(m => [m, before?.values?.[m] ?? 0]));
+      }
+      link.comparison = ComparisonTransform.compare(link.value, before?.value ?? 0);
+    }
+    for (const node of graph.nodes) {
+      const before = previousNodes.get(node.id);
+      if (measures.length) {
+        node.baselineValues = Object.fromEntries(measures.map(m => [m, before ? throughput(before, m) : 0]));
+      }
+      node.comparison = ComparisonTransform.compare(throughput(node), before ? throughput(before) : 0);
+    }
+    return graph;
+  }
+
+  /**
+   * Compare against the `measure` baselines, once link values hold that
+   * measure; nodes and links without per-measure baselines are left as they are
+   */
+  static measure(graph: SankeyGraph, measure: string): void {
+    for (const link of graph.links) {
+      if (!link.comparison || !link.baselineValues) continue;
+      link.comparison = ComparisonTransform.compare(link.value, link.baselineValues[measure] ?? 0);
+    }
+    for (const node of graph.nodes) {
+      if (!node.comparison || !node.baselineValues) continue;
+      node.comparison = ComparisonTransform.compare(throughput(node), node.baselineValues[measure] ?? 0);
+    }
+  }
+
+  /** Change from a baseline value to a current one */
+  static compare(current: number, baseline: number): ComparisonValues {
+    const delta = current - baseline;
+    return { baseline, delta, change: baseline === 0 ? null : delta / baseline };
+  }
+}
+
+/** A node's value as the layout computes it, by `measure` or the active value: the larger of its inflow and outflow */
+function throughput(node: SankeyNode, measure?: string): number {
+  const value = (l: SankeyLink) => measure === undefined ? l.value : l.values?.[measure] ?? 0;
+  const inflow = node.targetLinks.reduce((s, l) => s + value(l), 0);
+  const outflow = node.sourceLinks.reduce((s, l) => s + value(l), 0);
+  return Math.max(inflow, outflow);
+}
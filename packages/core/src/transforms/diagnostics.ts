@@ -0,0 +1,157 @@
+import type { SankeyNode, SankeyGraph, RowIssues, SankeyDiagnostics } from '../types/index.js';
+
+/**
+ * Validates a graph and combines the result with the row-level issues a
+ * transform reported:
+ *
+ * - Self-loops, cycles (strongly connected groups of 2+ nodes)
+ * - Disconnected components
+ * - Flow imbalance at intermediate nodes
+ */
+export class DiagnosticsAnalyzer {
+  static analyze(graph: SankeyGraph, issues?: RowIssues): SankeyDiagnostics {
+    return {
+      skippedRows: issues?.skippedRows ?? [],
+      coercedValues: issues?.coercedValues ?? [],
+      selfLoops: graph.links.filter(l => l.source === l.target),
+      cycles: DiagnosticsAnalyzer.findCycles(graph.nodes),
+      components: DiagnosticsAnalyzer.findComponents(graph),
+      imbalance: DiagnosticsAnalyzer.findImbalance(graph.nodes),
+    };
+  }
+
+  /** One short line per kind of issue, for overlays and logs */
+  static summarize(diagnostics: SankeyDiagnostics): string[] {
+    const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+    const lines: string[] = [];
+    const { skippedRows, coercedValues, selfLoops, cycles, components, imbalance } = diagnostics;
+
+    if (skippedRows.length > 0) {
+      const reasons = new Map<string, number>();
+      for (const { reason } of skippedRows) reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+      const detail = Array.from(reasons, ([reason, n]) => `${n} ${reason.replace(/-/g, ' ')}`).join(', ');
+      lines.push(`${count(skippedRows.length, 'row', 'rows')} skipped (${detail})`);
+    }
+    if (coercedValues.length > 0) lines.push(`${count(coercedValues.length, 'value', 'values')} converted to numbers`);
+    if (selfLoops.length > 0) lines.push(count(selfLoops.length, 'self-loop', 'self-loops'));
+    if (cycles.length > 0) lines.push(count(cycles.length, 'cycle', 'cycles'));
+    if (components.length > 1) lines.push(`${components.length} disconnected parts`);
+    const excess = imbalance.filter(i => i.difference > 0).length;
+    if (excess > 0) {
+      lines.push(excess === 1 ? '1 node sends more than it receives' : `${excess} nodes send more than they receive`);
+    }
+    return lines;
+  }
+
+  /** Tarjan's strongly connected components, iteratively */
+  private static findCycles(nodes: SankeyNode[]): string[][] {
+    const index = new Map<SankeyNode, number>();
+    const low = new Map<SankeyNode, number>();
+    const onStack = new Set<SankeyNode>();
+    const stack: SankeyNode[] = [];
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    for (const root of nodes) {
+      if (index.has(root)) continue;
+      const frames: Array<{ node: SankeyNode; next: number }> = [{ node: root, next: 0 }];
+      index.set(root, counter);
+      low.set(root, counter++);
+      stack.push(root);
+      onStack.add(root);
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+        const { node } = frame;
+        if (frame.next < node.sourceLinks.length) {
+          const target = node.sourceLinks[frame.next++].target;
+          if (!index.has(target)) {
+            index.set(target, counter);
+            low.set(target, counter++);
+            stack.push(target);
+            onStack.add(target);
+            frames.push({ node: target, next: 0 });
+          } else if (onStack.has(target)) {
+            low.set(node, Math.min(low.get(node)!, index.get(target)!));
+          }
+          continue;
+        }
+
+        frames.pop();
+        if (frames.length > 0) {
+          const parent = frames[frames.length - 1].node;
+          low.set(parent, Math.min(low.get(parent)!, low.get(node)!));
+        }
+        if (low.get(node) === index.get(node)) {
+          const component: string[] = [];
+          let member: SankeyNode;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member.id);
+          } while (member !== node);
+          if (component.length > 1) cycles.push(component.reverse());
+        }
+      }
+    }
+    return cycles;
+  }
+
+  /** Weakly connected components via union-find */
+  private static findComponents(graph: SankeyGraph): string[][] {
+    const parent = new Map<SankeyNode, SankeyNode>(graph.nodes.map(n => [n, n]));
+    const find = (node: SankeyNode): SankeyNode => {
+      let root = node;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      // Path compression
+      while (parent.get(node) !== root) {
+        const next = parent.get(node)!;
+        parent.set(node, root);
+        node = next;
+      }
+      return root;
+    };
+    for (const link of graph.links) parent.set(find(link.source), find(link.target));
+
+    const components = new Map<SankeyNode, string[]>();
+    for (const node of graph.nodes) {
+      const root = find(node);
+      const component = components.get(root);
+      if (component) component.push(node.id);
+      else components.set(root, [node.id]);
+    }
+    return Array.from(components.values());
+  }
+
+  private static findImbalance(nodes: SankeyNode[]): SankeyDiagnostics['imbalance'] {
+    const imbalance: SankeyDiagnostics['imbalance'] = [];
+    for (const node of nodes) {
+      if (node.sourceLinks.length === 0 || node.targetLinks.length === 0) continue;
+      const inflow = node.targetLinks.reduce((s, l) => s + l.value, 0);
+      const outflow = node.sourceLinks.reduce((s, l) => s + l.value, 0);
+      const difference = outflow - inflow;
+      if (Math.abs(difference) > 1e-9 * Math.max(inflow, outflow)) {
+        imbalance.push({ nodeId: node.id, inflow, outflow, difference });
+      }
+    }
+    return imbalance;
+  }
+}
+
+/**
+ * Read a numeric cell for a transform: returns the value, or the reason the
+ * row has to be skipped. Non-number cells that convert cleanly are recorded
+ * in `issues.coercedValues`.
+ */
+export function readValue(
+  raw: unknown,
+  index: number,
+  field: string,
+  issues?: RowIssues,
+): number | 'missing-value' | 'invalid-value' | 'non-positive-value' {
+  if (raw === null || raw === undefined || raw === '') return 'missing-value';
+  const value = Number(raw);
+  if (!Number.isFinite(value)) return 'invalid-value';
+  if (typeof raw !== 'number') issues?.coercedValues.push({ index, field, raw, value });
+  return value > 0 ? value : 'non-positive-value';
+}
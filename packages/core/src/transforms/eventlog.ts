@@ -0,0 +1,107 @@
+import type {
+  SankeyNode, SankeyGraph,
+  TabularData, EventLogConfig, SankeyConfig, RowIssues, SkipReason,
+} from '../types/index.js';
+import { ColorMapper } from './color.js';
+import { FlowCollector } from './flows.js';
+
+/**
+ * Converts raw event rows (session, timestamp, event) into a step-indexed
+ * journey graph.
+ *
+ * - Orders each session's events by timestamp (ties keep row order)
+ * - Nodes are labelled "Step n: Event" and pinned to column n - 1; ids are
+ *   `[n,"Event"]`, and `[n,null]` for the exit (JSON, so no event name can
+ *   make two nodes collide, nor one pass for the exit)
+ * - Link values count the sessions that made each transition
+ * - Colors by event name, so a page keeps its color at every step
+ */
+export class EventLogTransform {
+  /** Rows without a session, event or valid timestamp are skipped and, given `issues`, reported there */
+  static transform(
+    data: TabularData,
+    eventConfig: EventLogConfig,
+    sankeyConfig: SankeyConfig,
+    issues?: RowIssues,
+  ): SankeyGraph {
+    const { sessionField, timestampField, eventField, maxSteps } = eventConfig;
+    const collapseRepeats = eventConfig.collapseRepeats ?? true;
+    const exitLabel = typeof eventConfig.exitNode === 'string'
+      ? eventConfig.exitNode
+      : eventConfig.exitNode ? 'Exit' : null;
+    const colors = new ColorMapper(sankeyConfig);
+
+    // Group events by session, preserving row order for equal timestamps
+    const sessions = new Map<string, Array<{ time: number; event: string; row: number }>>();
+    data.rows.forEach((row, i) => {
+      const session = String(row[sessionField] ?? '');
+      const event = String(row[eventField] ?? '');
+      const time = EventLogTransform.parseTime(row[timestampField]);
+      const skip = (reason: SkipReason) => { issues?.skippedRows.push({ index: i, reason }); };
+      if (!session) return skip('missing-session');
+      if (!event) return skip('missing-event');
+      if (time === undefined) return skip('invalid-timestamp');
+
+      const events = sessions.get(session);
+      if (events) events.push({ time, event, row: i });
+      else sessions.set(session, [{ time, event, row: i }]);
+    });
+
+    // Count transitions: one per session
+    const nodes = new Map<string, SankeyNode>();
+    const flows = new FlowCollector();
+    // A null event is the exit step
+    const nodeFor = (step: number, event: string | null) => {
+      const name = event ?? exitLabel!;
+      const label = `Step ${step + 1}: ${name}`;
+      const id = JSON.stringify([step + 1, event]);
+      let node = nodes.get(id);
+      if (!node) {
+        node = {
+          id,
+          label,
+          value: 0,
+          depth: 0,
+          x: 0, y: 0,
+          width: 0, height: 0,
+          color: colors.categoryColor(name),
+          column: step,
+          sourceLinks: [],
+          targetLinks: [],
+          meta: event === null ? { step: step + 1, event: name, exit: true } : { step: step + 1, event },
+        };
+        nodes.set(id, node);
+      }
+      return node;
+    };
+
+    for (const events of sessions.values()) {
+      events.sort((a, b) => a.time - b.time || a.row - b.row);
+
+      let path: Array<string | null> = events.map(e => e.event);
+      if (collapseRepeats) path = path.filter((event, i) => i === 0 || event !== path[i - 1]);
+      const truncated = maxSteps !== undefined && path.length > maxSteps;
+      if (truncated) path = path.slice(0, maxSteps);
+      // A session cut short by maxSteps didn't exit at its last kept step
+      if (exitLabel !== null && !truncated) path.push(null);
+
+      for (let step = 0; step < path.length - 1; step++) {
+        flows.add(nodeFor(step, path[step]), nodeFor(step + 1, path[step + 1]), 1);
+      }
+    }
+
+    // Sessions with a single event and no exit step make no transition
+    const linked = Array.from(nodes.values()).filter(n => n.sourceLinks.length + n.targetLinks.length > 0);
+    linked.sort((a, b) => a.column! - b.column!);
+    return { nodes: linked, links: flows.links };
+  }
+
+  /** Epoch milliseconds from a Date, a number or a date string */
+  private static parseTime(value: unknown): number | undefined {
+    if (value === null || value === undefined || value === '') return undefined;
+    const time = value instanceof Date
+      ? value.getTime()
+      : typeof value === 'number' ? value : Date.parse(String(value));
+    return Number.isFinite(time) ? time : undefined;
+  }
+}
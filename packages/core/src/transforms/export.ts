@@ -0,0 +1,81 @@
+import type { SankeyGraph, GraphExport, ExportedNode, ExportedLink, ComparisonValues } from '../types/index.js';
+import { JourneyAnalyzer } from './journey.js';
+
+type Cell = string | number | boolean | null | undefined;
+
+const METRIC_COLUMNS = ['inflow', 'outflow', 'dropOff', 'dropOffRate', 'conversionRate', 'isSource', 'isSink'] as const;
+const GOAL_COLUMNS = ['goalRate', 'goalValue', 'firstTouch', 'lastTouch'] as const;
+const COMPARISON_COLUMNS = ['baseline', 'delta', 'change'] as const;
+
+/**
+ * Flattens a graph and its journey metrics (with goal reach for `goals`)
+ * for download:
+ *
+ * - `build` — plain objects with node ids in place of node references
+ * - `toJSON` — the same, serialized
+ * - `toCSV` — one table, one row per node then per link, told apart by `type`
+ *
+ * Category, goal, measure and comparison columns appear only when the data has them.
+ */
+export class GraphExporter {
+  static build(graph: SankeyGraph, goals?: string[]): GraphExport {
+    const metrics = JourneyAnalyzer.analyze(graph, goals);
+    const nodes = graph.nodes.map((node, i): ExportedNode => {
+      const entry: ExportedNode = { ...metrics[i], value: node.value };
+      if (node.comparison) entry.comparison = node.comparison;
+      return entry;
+    });
+    const links = graph.links.map((link): ExportedLink => {
+      const entry: ExportedLink = { source: link.source.id, target: link.target.id, value: link.value };
+      if (link.id !== undefined) entry.id = link.id;
+      if (link.values) entry.values = link.values;
+      if (link.category !== undefined) entry.category = link.category;
+      if (link.comparison) entry.comparison = link.comparison;
+      return entry;
+    });
+    return { nodes, links };
+  }
+
+  static toJSON(graph: SankeyGraph, goals?: string[]): string {
+    return JSON.stringify(GraphExporter.build(graph, goals), null, 2);
+  }
+
+  static toCSV(graph: SankeyGraph, goals?: string[]): string {
+    const { nodes, links } = GraphExporter.build(graph, goals);
+    const measures = Array.from(new Set(links.flatMap(l => Object.keys(l.values ?? {}))));
+    const hasGoals = nodes.some(n => n.goalRate !== undefined);
+    const hasCategory = links.some(l => l.category !== undefined);
+    const hasComparison = [...nodes, ...links].some(e => e.comparison);
+
+    const header = [
+      'type', 'id', 'label', 'source', 'target', ...(hasCategory ? ['category'] : []), 'value', ...measures, ...METRIC_COLUMNS,
+      ...(hasGoals ? GOAL_COLUMNS : []), ...(hasComparison ? COMPARISON_COLUMNS : []),
+    ];
+    const compared = (c: ComparisonValues | undefined): Cell[] =>
+      hasComparison ? COMPARISON_COLUMNS.map(k => c?.[k]) : [];
+
+    const rows: Cell[][] = [
+      ...nodes.map(n => [
+        'node', n.nodeId, n.label, '', '', ...(hasCategory ? [''] : []), n.value, ...measures.map(() => ''),
+        ...METRIC_COLUMNS.map(k => n[k]),
+        ...(hasGoals ? GOAL_COLUMNS.map(k => n[k]) : []),
+        ...compared(n.comparison),
+      ]),
+      ...links.map(l => [
+        'link', l.id, '', l.source, l.target, ...(hasCategory ? [l.category] : []), l.value,
+        ...measures.map(m => l.values?.[m]),
+        ...METRIC_COLUMNS.map(() => ''),
+        ...(hasGoals ? GOAL_COLUMNS.map(() => '') : []),
+        ...compared(l.comparison),
+      ]),
+    ];
+    return [header, ...rows].map(row => row.map(GraphExporter.csvCell).join(',')).join('\n');
+  }
+
+  /** RFC 4180 quoting: cells with commas, quotes or line breaks are quoted, quotes doubled */
+  private static csvCell(value: Cell): string {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  }
+}
@@ -0,0 +1,98 @@
+import type { SankeyNode, SankeyLink, SankeyGraph, GraphFilterOptions } from '../types/index.js';
+
+/**
+ * Derives a subgraph. Criteria apply in order: include/exclude nodes,
+ * minimum link value, top-N links, then focus. Nodes left without links are
+ * dropped (except the focus node).
+ *
+ * Returns a new graph of copied nodes and links; the input graph is left
+ * untouched, so filters can be changed or cleared without rebuilding it.
+ */
+export class GraphFilter {
+  static apply(graph: SankeyGraph, options: GraphFilterOptions): SankeyGraph {
+    const { includeNodes, excludeNodes, minLinkValue, topLinks, focus } = options;
+    const include = includeNodes ? new Set(includeNodes) : null;
+    const exclude = new Set(excludeNodes ?? []);
+
+    let links = graph.links.filter(l =>
+      (!include || (include.has(l.source.id) && include.has(l.target.id))) &&
+      !exclude.has(l.source.id) && !exclude.has(l.target.id) &&
+      (minLinkValue === undefined || l.value >= minLinkValue));
+
+    if (topLinks !== undefined) {
+      const kept = new Set([...links].sort((a, b) => b.value - a.value).slice(0, Math.max(0, topLinks)));
+      links = links.filter(l => kept.has(l));
+    }
+
+    let focusNode: SankeyNode | undefined;
+    if (focus) {
+      focusNode = graph.nodes.find(n => n.id === focus.node);
+      const reached = new Set<SankeyLink>();
+      if (focusNode) {
+        const allowed = new Set(links);
+        GraphFilter.collect(focusNode, 'downstream', focus.downstream ?? Infinity, allowed, reached);
+        GraphFilter.collect(focusNode, 'upstream', focus.upstream ?? Infinity, allowed, reached);
+      }
+      links = links.filter(l => reached.has(l));
+    }
+
+    return GraphFilter.subgraph(graph, links, focusNode);
+  }
+
+  /**
+   * Breadth-first walk from `start` along (or against) the flow, collecting
+   * links up to `hops` away
+   */
+  private static collect(
+    start: SankeyNode,
+    direction: 'upstream' | 'downstream',
+    hops: number,
+    allowed: Set<SankeyLink>,
+    reached: Set<SankeyLink>,
+  ): void {
+    const downstream = direction === 'downstream';
+    const visited = new Set<SankeyNode>([start]);
+    let frontier = [start];
+
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+      const next: SankeyNode[] = [];
+      for (const node of frontier) {
+        for (const link of downstream ? node.sourceLinks : node.targetLinks) {
+          if (!allowed.has(link)) continue;
+          reached.add(link);
+          const other = downstream ? link.target : link.source;
+          if (visited.has(other)) continue;
+          visited.add(other);
+          next.push(other);
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  /** Copy the given links and the nodes they touch, in the input order */
+  private static subgraph(graph: SankeyGraph, links: SankeyLink[], keep?: SankeyNode): SankeyGraph {
+    const used = new Set<SankeyNode>(keep ? [keep] : []);
+    for (const link of links) {
+      used.add(link.source);
+      used.add(link.target);
+    }
+
+    const copies = new Map<SankeyNode, SankeyNode>();
+    const nodes: SankeyNode[] = [];
+    for (const node of graph.nodes) {
+      if (!used.has(node)) continue;
+      const copy: SankeyNode = { ...node, sourceLinks: [], targetLinks: [] };
+      copies.set(node, copy);
+      nodes.push(copy);
+    }
+
+    const copiedLinks = links.map(link => {
+      const copy: SankeyLink = { ...link, source: copies.get(link.source)!, target: copies.get(link.target)! };
+      copy.source.sourceLinks.push(copy);
+      copy.target.targetLinks.push(copy);
+      return copy;
+    });
+    return { nodes, links: copiedLinks };
+  }
+}
@@ -0,0 +1,28 @@
+import type { SankeyNode, SankeyLink } from '../types/index.js';
+
+/**
+ * Sums flows between node pairs into one link per pair, created on first
+ * use and wired into both nodes' sourceLinks/targetLinks.
+ *
+ * One collector per transform: `links` keeps first-seen order.
+ */
+export class FlowCollector {
+  readonly links: SankeyLink[] = [];
+  // Links by source node → target node
+  private bySource = new Map<SankeyNode, Map<SankeyNode, SankeyLink>>();
+
+  add(source: SankeyNode, target: SankeyNode, value: number): void {
+    let targets = this.bySource.get(source);
+    if (!targets) this.bySource.set(source, targets = new Map());
+    const existing = targets.get(target);
+    if (existing) {
+      existing.value += value;
+      return;
+    }
+    const link: SankeyLink = { source, target, value, width: 0, sy: 0, ty: 0 };
+    targets.set(target, link);
+    source.sourceLinks.push(link);
+    target.targetLinks.push(link);
+    this.links.push(link);
+  }
+}
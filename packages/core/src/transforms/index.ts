@@ -1,2 +1,10 @@
 export { TabularTransform } from './tabular.js';
 export { JourneyAnalyzer } from './journey.js';
+export { OtherBucketer } from './bucket.js';
+export { EventLogTransform } from './eventlog.js';
+export { PathTransform } from './path.js';
+export { ComparisonTransform } from './comparison.js';
+export { ColorMapper } from './color.js';
+export { DiagnosticsAnalyzer } from './diagnostics.js';
+export { GraphFilter } from './filter.js';
+export { GraphExporter } from './export.js';
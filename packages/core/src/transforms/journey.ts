@@ -1,13 +1,34 @@
-import type { SankeyGraph, JourneyMetrics } from '../types/index.js';
+import type { SankeyGraph, SankeyNode, SankeyLink, JourneyMetrics, JourneyPath } from '../types/index.js';
+
+/** Cap on goal reach passes through cycles; acyclic graphs take a single pass */
+const GOAL_ITERATIONS = 200;
+
+/** A journey being extended (`open`), or one that has ended */
+interface Candidate {
+  node: SankeyNode;
+  links: SankeyLink[];
+  value: number;
+  open: boolean;
+}
 
 /**
  * Analyzes a Sankey graph as a user journey:
  * - Drop-off rates per node
  * - Conversion rates per node
  * - Source/sink detection
+ * - Most common full paths
  */
 export class JourneyAnalyzer {
-  static analyze(graph: SankeyGraph): JourneyMetrics[] {
+  /**
+   * Per-node metrics. Given goal node ids, also how much of each node's flow
+   * goes on to reach a goal, and first-touch (entry node) and last-touch
+   * (step before the goal) attribution of goal volume. Like `topPaths`,
+   * reach is a flow-proportional estimate.
+   */
+  static analyze(graph: SankeyGraph, goals?: string[]): JourneyMetrics[] {
+    const goalIds = new Set(goals);
+    const reach = goalIds.size ? JourneyAnalyzer.goalReach(graph, goalIds) : null;
+
     return graph.nodes.map(node => {
       const inflow = node.targetLinks.reduce((s, l) => s + l.value, 0);
       const outflow = node.sourceLinks.reduce((s, l) => s + l.value, 0);
@@ -18,7 +39,7 @@ export class JourneyAnalyzer {
       const dropOffRate = inflow > 0 && !isSource ? dropOff / inflow : 0;
       const conversionRate = inflow > 0 && !isSource ? outflow / inflow : isSource ? 1 : 0;
 
-      return {
+      const metrics: JourneyMetrics = {
         nodeId: node.id,
         label: node.label,
         inflow,
@@ -29,6 +50,176 @@ export class JourneyAnalyzer {
         isSource,
         isSink,
       };
+      if (reach) {
+        const goalRate = reach.get(node)!;
+        metrics.goalRate = goalRate;
+        metrics.goalValue = goalRate * Math.max(inflow, outflow);
+        metrics.firstTouch = isSource ? goalRate * outflow : 0;
+        metrics.lastTouch = goalIds.has(node.id) ? 0 : node.sourceLinks
+          .filter(l => goalIds.has(l.target.id))
+          .reduce((s, l) => s + l.value, 0);
+      }
+      return metrics;
     });
   }
+
+  /**
+   * Share of each node's flow that reaches a goal: 1 at goals, elsewhere
+   * the value-weighted reach of its targets, with flow that stops counting
+   * 0. Nodes are visited targets first, so one pass solves acyclic graphs
+   * of any depth; through cycles, passes repeat from 0 until they converge.
+   */
+  private static goalReach(graph: SankeyGraph, goalIds: Set<string>): Map<SankeyNode, number> {
+    const reach = new Map<SankeyNode, number>();
+    for (const node of graph.nodes) reach.set(node, goalIds.has(node.id) ? 1 : 0);
+    const { order, cyclic } = targetsFirst(graph.nodes);
+
+    for (let i = 0; i < (cyclic ? GOAL_ITERATIONS : 1); i++) {
+      let change = 0;
+      for (const node of order) {
+        if (goalIds.has(node.id)) continue;
+        const outflow = outflowOf(node);
+        const base = node.targetLinks.length ? Math.max(outflow, inflowOf(node)) : outflow;
+        if (base <= 0) continue;
+        const rate = node.sourceLinks.reduce((s, l) => s + l.value * (reach.get(l.target) ?? 0), 0) / base;
+        change = Math.max(change, rate - reach.get(node)!);
+        reach.set(node, rate);
+      }
+      if (change < 1e-9) break;
+    }
+    return reach;
+  }
+
+  /**
+   * The `k` highest-volume paths from an entry (source) node to where the
+   * journey ends: a sink, or any node with drop-off.
+   *
+   * Link data doesn't say which visitors continue where, so volumes are a
+   * flow-proportional estimate: flow reaching a node splits across its
+   * outgoing links by value, and whatever doesn't continue ends there.
+   * Flow back to a node already on the path ends the path instead.
+   *
+   * Paths are found best-first — extending a path never adds volume — so
+   * only as much of the graph is explored as the top `k` need.
+   */
+  static topPaths(graph: SankeyGraph, k = 10): JourneyPath[] {
+    const sources = graph.nodes.filter(n => n.targetLinks.length === 0);
+    const total = sources.reduce((s, n) => s + outflowOf(n), 0);
+    if (total <= 0 || k <= 0) return [];
+
+    const heap: Candidate[] = [];
+    for (const node of sources) {
+      const value = outflowOf(node);
+      if (value > 0) push(heap, { node, links: [], value, open: true });
+    }
+
+    const paths: JourneyPath[] = [];
+    while (heap.length && paths.length < k) {
+      const { node, links, value, open } = pop(heap);
+      if (!open) {
+        const nodes = [links[0].source, ...links.map(l => l.target)];
+        paths.push({
+          nodeIds: nodes.map(n => n.id),
+          labels: nodes.map(n => n.label),
+          links,
+          value,
+          share: value / total,
+        });
+        continue;
+      }
+
+      // Share of arriving flow that takes each link; at entry nodes all of it leaves
+      const outflow = outflowOf(node);
+      const base = links.length ? Math.max(outflow, inflowOf(node)) : outflow;
+      const visited = new Set([node, ...links.map(l => l.source)]);
+      let continued = 0;
+      for (const link of node.sourceLinks) {
+        if (link.value <= 0 || visited.has(link.target)) continue;
+        continued += link.value;
+        push(heap, { node: link.target, links: [...links, link], value: value * link.value / base, open: true });
+      }
+
+      const ended = value * (1 - continued / base);
+      if (links.length && ended > 0) push(heap, { node, links, value: ended, open: false });
+    }
+    return paths;
+  }
+}
+
+function inflowOf(node: SankeyNode): number {
+  return node.targetLinks.reduce((s, l) => s + l.value, 0);
+}
+
+function outflowOf(node: SankeyNode): number {
+  return node.sourceLinks.reduce((s, l) => s + l.value, 0);
+}
+
+/** Binary max-heap on value; ties go to ended paths so they're reported first */
+function before(a: Candidate, b: Candidate): boolean {
+  return a.value > b.value || (a.value === b.value && !a.open && b.open);
+}
+
+function push(heap: Candidate[], item: Candidate): void {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (!before(heap[i], heap[parent])) break;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+}
+
+function pop(heap: Candidate[]): Candidate {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let best = i;
+      if (left < heap.length && before(heap[left], heap[best])) best = left;
+      if (right < heap.length && before(heap[right], heap[best])) best = right;
+      if (best === i) break;
+      [heap[i], heap[best]] = [heap[best], heap[i]];
+      i = best;
+    }
+  }
+  return top;
+}
+
+/**
+ * Nodes in depth-first post-order along links — every node after the nodes
+ * it links to, except across back links — and whether there were any back
+ * links. Iterative, so deep chains can't overflow the stack.
+ */
+function targetsFirst(nodes: SankeyNode[]): { order: SankeyNode[]; cyclic: boolean } {
+  const order: SankeyNode[] = [];
+  // 'open' while on the current path, 'done' once all its targets are ordered
+  const state = new Map<SankeyNode, 'open' | 'done'>();
+  let cyclic = false;
+
+  for (const root of nodes) {
+    if (state.has(root)) continue;
+    state.set(root, 'open');
+    const stack = [{ node: root, next: 0 }];
+    while (stack.length) {
+      const top = stack[stack.length - 1];
+      if (top.next < top.node.sourceLinks.length) {
+        const target = top.node.sourceLinks[top.next++].target;
+        const seen = state.get(target);
+        if (seen === 'open') cyclic = true;
+        if (seen) continue;
+        state.set(target, 'open');
+        stack.push({ node: target, next: 0 });
+      } else {
+        state.set(top.node, 'done');
+        order.push(top.node);
+        stack.pop();
+      }
+    }
+  }
+  return { order, cyclic };
 }
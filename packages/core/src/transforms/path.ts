@@ -0,0 +1,76 @@
+import type {
+  SankeyNode, SankeyGraph,
+  TabularData, PathConfig, SankeyConfig, RowIssues,
+} from '../types/index.js';
+import { ColorMapper } from './color.js';
+import { FlowCollector } from './flows.js';
+import { readValue } from './diagnostics.js';
+
+/**
+ * Converts wide path rows (`{ step1, step2, ..., stepN, count }`) into a graph.
+ *
+ * - Links consecutive non-empty steps; empty steps in between are skipped
+ * - Node ids are stage-qualified (`["step2","Pricing"]`, JSON so no field or
+ *   value can make two nodes collide), so the same page at different stages
+ *   stays a separate node; labels are the plain value
+ * - Each node is pinned to its step field's column
+ * - Colors by value, so a page keeps its color at every stage
+ */
+export class PathTransform {
+  /** Rows that can't become a link are skipped and, given `issues`, reported there */
+  static transform(
+    data: TabularData,
+    pathConfig: PathConfig,
+    sankeyConfig: SankeyConfig,
+    issues?: RowIssues,
+  ): SankeyGraph {
+    const { stepFields, valueField } = pathConfig;
+    const colors = new ColorMapper(sankeyConfig);
+
+    const nodes = new Map<string, SankeyNode>();
+    const flows = new FlowCollector();
+    const nodeFor = (step: number, name: string) => {
+      const id = JSON.stringify([stepFields[step], name]);
+      let node = nodes.get(id);
+      if (!node) {
+        node = {
+          id,
+          label: name,
+          value: 0,
+          depth: 0,
+          x: 0, y: 0,
+          width: 0, height: 0,
+          color: colors.categoryColor(name),
+          column: step,
+          sourceLinks: [],
+          targetLinks: [],
+          meta: { stage: stepFields[step] },
+        };
+        nodes.set(id, node);
+      }
+      return node;
+    };
+
+    data.rows.forEach((row, index) => {
+      const value = valueField === undefined ? 1 : readValue(row[valueField], index, valueField, issues);
+      if (typeof value === 'string') {
+        issues?.skippedRows.push({ index, reason: value });
+        return;
+      }
+
+      const steps = stepFields
+        .map((field, step) => ({ step, name: String(row[field] ?? '') }))
+        .filter(s => s.name);
+      if (steps.length < 2) {
+        issues?.skippedRows.push({ index, reason: 'single-step' });
+        return;
+      }
+      for (let i = 1; i < steps.length; i++) {
+        flows.add(nodeFor(steps[i - 1].step, steps[i - 1].name), nodeFor(steps[i].step, steps[i].name), value);
+      }
+    });
+
+    const sorted = Array.from(nodes.values()).sort((a, b) => a.column! - b.column!);
+    return { nodes: sorted, links: flows.links };
+  }
+}
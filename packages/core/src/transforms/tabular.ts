@@ -1,35 +1,98 @@
 import type {
   SankeyNode, SankeyLink, SankeyGraph,
-  TabularData, TransformConfig, SankeyConfig,
+  TabularData, TransformConfig, SankeyConfig, RowIssues, SkipReason,
 } from '../types/index.js';
+import { ColorMapper } from './color.js';
+import { readValue } from './diagnostics.js';
+
+/** Rows seen so far for one source→target pair and measure */
+interface Accumulator {
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+  /** Distinct `distinctField` values, for 'count-distinct' */
+  ids: Set<string>;
+}
+
+function newAccumulator(): Accumulator {
+  return { sum: 0, count: 0, min: Infinity, max: -Infinity, ids: new Set() };
+}
 
 /**
  * Converts tabular (row-based) data into a SankeyGraph.
  *
- * - Deduplicates and aggregates duplicate source→target pairs
- * - Assigns colors from the palette
+ * - Deduplicates duplicate source→target pairs, combining them per `aggregate`
+ * - With `valueFields`, aggregates every measure into `link.values`
+ * - With a `linkColor` field, splits each pair into one link per field value
+ * - Assigns colors: color field (literal color or category), colorMap, palette
+ * - Picks up optional label/column/order/color hints (first non-empty value per node wins)
  * - Wires up sourceLinks/targetLinks references
  */
 export class TabularTransform {
+  /**
+   * Rows that can't become a link are skipped and, given `issues`, reported
+   * there. Throws when `aggregate` is 'count-distinct' without a `distinctField`.
+   */
   static transform(
     data: TabularData,
     transformConfig: TransformConfig,
     sankeyConfig: SankeyConfig,
+    issues?: RowIssues,
   ): SankeyGraph {
-    const { sourceField, targetField, valueField } = transformConfig;
-    const palette = sankeyConfig.colorPalette;
+    const { sourceField, targetField, distinctField } = transformConfig;
+    const aggregate = transformConfig.aggregate ?? 'sum';
+    if (aggregate === 'count-distinct' && !distinctField) {
+      throw new Error("aggregate 'count-distinct' needs a distinctField naming the column to count");
+    }
+    const colors = new ColorMapper(sankeyConfig);
+    // Link categories get palette colors in their own first-seen order
+    const linkColors = new ColorMapper(sankeyConfig);
+    const categoryField = typeof sankeyConfig.linkColor === 'object' ? sankeyConfig.linkColor.field : undefined;
+    // The first measure sizes links and decides whether a row is usable
+    const measures = TabularTransform.measureFields(transformConfig);
+    const [valueField] = measures;
+    // Counting needs no value; without a value field every row is worth 1
+    const readsValue = valueField !== undefined && aggregate !== 'count' && aggregate !== 'count-distinct';
 
-    // Aggregate links: key → total value
-    const linkAgg = new Map<string, number>();
-    for (const row of data.rows) {
+    // Aggregate links: source id → target id → category → accumulated rows per measure.
+    // Nested maps rather than joined string keys, so ids may contain any character.
+    const linkAgg = new Map<string, Map<string, Map<string, Accumulator[]>>>();
+    data.rows.forEach((row, index) => {
       const source = String(row[sourceField] ?? '');
       const target = String(row[targetField] ?? '');
-      const value = Number(row[valueField]) || 0;
-      if (!source || !target || value <= 0) continue;
+      const skip = (reason: SkipReason) => { issues?.skippedRows.push({ index, reason }); };
+      if (!source) return skip('missing-source');
+      if (!target) return skip('missing-target');
+      const value = readsValue ? readValue(row[valueField], index, valueField, issues) : 1;
+      if (typeof value === 'string') return skip(value);
+      const distinct = aggregate === 'count-distinct' ? row[distinctField!] : undefined;
+      if (aggregate === 'count-distinct' && (distinct === null || distinct === undefined || distinct === '')) {
+        return skip('missing-distinct-id');
+      }
 
-      const key = `${source}→${target}`;
-      linkAgg.set(key, (linkAgg.get(key) || 0) + value);
-    }
+      const rawCategory = categoryField ? row[categoryField] : undefined;
+      const category = rawCategory === null || rawCategory === undefined ? '' : String(rawCategory).trim();
+
+      let targets = linkAgg.get(source);
+      if (!targets) linkAgg.set(source, targets = new Map());
+      let categories = targets.get(target);
+      if (!categories) targets.set(target, categories = new Map());
+      let accs = categories.get(category);
+      if (!accs) categories.set(category, accs = Array.from({ length: Math.max(1, measures.length) }, newAccumulator));
+      accs.forEach((acc, i) => {
+        // Other measures may be zero, and a blank cell only leaves that measure out
+        const raw = row[measures[i]];
+        const cell = i === 0 || !readsValue ? value
+          : raw === null || raw === undefined || raw === '' ? NaN : Number(raw);
+        if (!Number.isFinite(cell)) return;
+        acc.sum += cell;
+        acc.count++;
+        acc.min = Math.min(acc.min, cell);
+        acc.max = Math.max(acc.max, cell);
+        if (distinct !== undefined) acc.ids.add(String(distinct));
+      });
+    });
 
     // Collect unique node IDs preserving first-seen order
     const nodeIds: string[] = [];
@@ -47,43 +110,87 @@ export class TabularTransform {
       }
     }
 
+    // Layout hints: first non-empty value per node wins
+    const columnHints = new Map<string, number>();
+    const orderHints = new Map<string, number>();
+    const colorHints = new Map<string, string>();
+    const labelHints = new Map<string, string>();
+    const {
+      sourceColumnField, targetColumnField, sourceOrderField, targetOrderField, stages,
+      sourceColorField, targetColorField, sourceLabelField, targetLabelField,
+    } = transformConfig;
+    const collectHint = (hints: Map<string, number>, id: string, raw: unknown, names?: string[]) => {
+      if (!id || hints.has(id)) return;
+      const hint = TabularTransform.parseHint(raw, names);
+      if (hint !== undefined) hints.set(id, hint);
+    };
+    const collectText = (hints: Map<string, string>, id: string, raw: unknown) => {
+      if (!id || hints.has(id) || raw === null || raw === undefined || raw === '') return;
+      hints.set(id, String(raw));
+    };
+    for (const row of data.rows) {
+      const source = String(row[sourceField] ?? '');
+      const target = String(row[targetField] ?? '');
+      if (sourceColumnField) collectHint(columnHints, source, row[sourceColumnField], stages);
+      if (targetColumnField) collectHint(columnHints, target, row[targetColumnField], stages);
+      if (sourceOrderField) collectHint(orderHints, source, row[sourceOrderField]);
+      if (targetOrderField) collectHint(orderHints, target, row[targetOrderField]);
+      if (sourceColorField) collectText(colorHints, source, row[sourceColorField]);
+      if (targetColorField) collectText(colorHints, target, row[targetColorField]);
+      if (sourceLabelField) collectText(labelHints, source, row[sourceLabelField]);
+      if (targetLabelField) collectText(labelHints, target, row[targetLabelField]);
+    }
+
     // Create nodes
     const nodeMap = new Map<string, SankeyNode>();
-    for (let i = 0; i < nodeIds.length; i++) {
-      const id = nodeIds[i];
+    for (const id of nodeIds) {
       const node: SankeyNode = {
         id,
-        label: id,
+        label: transformConfig.labels?.[id] ?? labelHints.get(id) ?? id,
         value: 0,
         depth: 0,
         x: 0, y: 0,
         width: 0, height: 0,
-        color: palette[i % palette.length],
+        color: colors.color(id, colorHints.get(id)),
         sourceLinks: [],
         targetLinks: [],
       };
+      if (columnHints.has(id)) node.column = columnHints.get(id);
+      if (orderHints.has(id)) node.order = orderHints.get(id);
       nodeMap.set(id, node);
     }
 
     // Create links with node references
     const links: SankeyLink[] = [];
-    for (const [key, value] of linkAgg) {
-      const [sourceId, targetId] = key.split('→');
+    for (const [sourceId, targets] of linkAgg) {
       const source = nodeMap.get(sourceId)!;
-      const target = nodeMap.get(targetId)!;
-
-      const link: SankeyLink = {
-        source,
-        target,
-        value,
-        width: 0,
-        sy: 0,
-        ty: 0,
-      };
+      for (const [targetId, categories] of targets) {
+        const target = nodeMap.get(targetId)!;
+        for (const [category, accs] of categories) {
+          const link: SankeyLink = {
+            source,
+            target,
+            value: TabularTransform.aggregateValue(accs[0], aggregate),
+            width: 0,
+            sy: 0,
+            ty: 0,
+          };
+          if (transformConfig.valueFields) {
+            link.values = Object.fromEntries(
+              measures.map((field, i) => [field, TabularTransform.aggregateValue(accs[i], aggregate)]));
+          }
+          if (category) {
+            // Parallel links between the same nodes need their own identity
+            link.id = JSON.stringify([sourceId, targetId, category]);
+            link.category = category;
+            link.color = linkColors.color(category, category);
+          }
 
-      source.sourceLinks.push(link);
-      target.targetLinks.push(link);
-      links.push(link);
+          source.sourceLinks.push(link);
+          target.targetLinks.push(link);
+          links.push(link);
+        }
+      }
     }
 
     return {
@@ -91,4 +198,34 @@ export class TabularTransform {
       links,
     };
   }
+
+  /** Measure columns, the active one first: `valueField`, then the rest of `valueFields` */
+  static measureFields(transformConfig: TransformConfig): string[] {
+    const { valueField, valueFields = [] } = transformConfig;
+    const fields = valueField === undefined ? valueFields : [valueField, ...valueFields];
+    return Array.from(new Set(fields));
+  }
+
+  private static aggregateValue(acc: Accumulator, aggregate: NonNullable<TransformConfig['aggregate']>): number {
+    if (acc.count === 0) return 0;
+    switch (aggregate) {
+      case 'count': return acc.count;
+      case 'count-distinct': return acc.ids.size;
+      case 'mean': return acc.sum / acc.count;
+      case 'min': return acc.min;
+      case 'max': return acc.max;
+      default: return acc.sum;
+    }
+  }
+
+  /** Numeric hint from a cell: a stage name's index, or a number */
+  private static parseHint(value: unknown, stages?: string[]): number | undefined {
+    if (value === null || value === undefined || value === '') return undefined;
+    if (stages) {
+      const index = stages.indexOf(String(value));
+      if (index >= 0) return index;
+    }
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  }
 }
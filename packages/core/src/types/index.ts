@@ -4,7 +4,7 @@ export interface SankeyNode {
   label: string;
   /** Computed: total flow value through this node */
   value: number;
-  /** Computed: column depth (0 = leftmost source) */
+  /** Computed: column depth (0 = leftmost, or topmost when vertical, source) */
   depth: number;
   /** Computed: x position in pixels */
   x: number;
@@ -16,30 +16,78 @@ export interface SankeyNode {
   height: number;
   /** Color override — defaults to palette assignment */
   color?: string;
+  /** Optional: pin the node to this column (0 = first) instead of inferring it */
+  column?: number;
+  /** Optional: position within its column, lower values first */
+  order?: number;
   /** Links originating from this node */
   sourceLinks: SankeyLink[];
   /** Links targeting this node */
   targetLinks: SankeyLink[];
+  /** Baseline value and change, in a period-over-period comparison */
+  comparison?: ComparisonValues;
+  /** Baseline value per measure, in a comparison of data with several measures */
+  baselineValues?: Record<string, number>;
   /** Arbitrary metadata */
   meta?: Record<string, unknown>;
 }
 
 /** A link (flow) between two nodes */
 export interface SankeyLink {
+  /** Optional identity; needed only to tell apart parallel links between the same nodes */
+  id?: string;
   source: SankeyNode;
   target: SankeyNode;
   /** Flow value / weight */
   value: number;
+  /** Value per measure, when the data has several; `value` holds the active one */
+  values?: Record<string, number>;
   /** Computed: link thickness in pixels */
   width: number;
-  /** Computed: y offset at source node */
+  /** Computed: y offset at source node (x offset when vertical) */
   sy: number;
-  /** Computed: y offset at target node */
+  /** Computed: y offset at target node (x offset when vertical) */
   ty: number;
+  /** Computed: true when the link closes a cycle and is drawn as a loop */
+  circular?: boolean;
+  /** Computed: side of the chart a circular link loops around (left/right when vertical) */
+  circularSide?: 'top' | 'bottom';
+  /** Computed: y (x when vertical) of the outer edge of a circular link's loop */
+  circularY?: number;
+  /** Computed: distance between a circular link's loop and its nodes */
+  circularGap?: number;
+  /** Baseline value and change, in a period-over-period comparison; colors the ribbon */
+  comparison?: ComparisonValues;
+  /** Baseline value per measure, in a comparison of data with several measures */
+  baselineValues?: Record<string, number>;
+  /** Value of the `linkColor` field the link's rows share; links are split per value */
+  category?: string;
+  /** Ribbon color for `category`: a literal color from the field, `colorMap` or the palette */
+  color?: string;
   /** Arbitrary metadata */
   meta?: Record<string, unknown>;
 }
 
+/**
+ * How ribbons are colored: a source→target gradient, the source or target
+ * node's color, the theme's solid link color, a function, or a data field
+ * (`{ field }`) whose values split links into separately colored ribbons
+ */
+export type LinkColorMode =
+  | 'gradient' | 'source' | 'target' | 'solid'
+  | ((link: SankeyLink) => string)
+  | { field: string };
+
+/** A node's or link's current value compared with a baseline period */
+export interface ComparisonValues {
+  /** Value in the baseline period (0 when the flow is new) */
+  baseline: number;
+  /** Current value minus baseline */
+  delta: number;
+  /** Relative change, delta / baseline; null when the baseline is 0 */
+  change: number | null;
+}
+
 /** The full graph structure after layout */
 export interface SankeyGraph {
   nodes: SankeyNode[];
@@ -54,9 +102,11 @@ export interface SankeyConfig {
   height: number;
   /** Padding inside the SVG */
   padding: Padding;
-  /** Node width in pixels */
+  /** Flow direction: left-to-right or top-to-bottom */
+  orientation: Orientation;
+  /** Node thickness along the flow direction in pixels */
   nodeWidth: number;
-  /** Vertical padding between nodes in pixels */
+  /** Padding between nodes in the same column in pixels */
   nodePadding: number;
   /** Node alignment strategy */
   nodeAlign: 'left' | 'right' | 'center' | 'justify';
@@ -68,20 +118,154 @@ export interface SankeyConfig {
   linkDimOpacity: number;
   /** Color palette for nodes */
   colorPalette: string[];
+  /** Fixed colors per category (node id, or the value of a color field) */
+  colorMap?: Record<string, string>;
+  /**
+   * How categories without a `colorMap` entry pick a palette color: in
+   * first-seen order, or by hashing the category so a node keeps its color
+   * when filters change which nodes are present
+   */
+  colorAssignment: 'index' | 'hash';
+  /**
+   * Ribbon coloring. A `{ field }` is read when data is set, from tabular
+   * rows; compared flows are always colored by change
+   */
+  linkColor: LinkColorMode;
+  /** Hex colors for falling, unchanged and rising flows in a comparison chart */
+  comparisonColors: { decrease: string; neutral: string; increase: string };
+  /** Relative change at which comparison colors reach full strength (0.5 = ±50%) */
+  comparisonRange: number;
+  /** Node ids that count as conversions, e.g. ['Purchase']; adds goal reach and attribution to journey metrics */
+  goals?: string[];
+  /** Where goal reach is shown when `goals` is set: tooltips, the node percentage badge, both or neither */
+  goalDisplay: 'none' | 'tooltip' | 'badge' | 'both';
   /** Highlight mode on hover */
   highlightMode: 'forward' | 'backward' | 'both' | 'none';
   /** Enable node dragging */
   draggable: boolean;
+  /**
+   * Milliseconds over which the SVG chart morphs into its next state when
+   * data, filters or config change; 0 redraws at once
+   */
+  transitionDuration: number;
   /** Enable tooltips */
   tooltips: boolean;
+  /** Show a compact warning in the chart when the data has issues (see `getDiagnostics`) */
+  diagnosticsOverlay: boolean;
   /** Custom tooltip formatter for nodes */
   nodeTooltip?: (node: SankeyNode) => string;
   /** Custom tooltip formatter for links */
   linkTooltip?: (link: SankeyLink) => string;
   /** Custom node label formatter */
   nodeLabel?: (node: SankeyNode) => string;
+  /** Initial node order within columns: by value, or crossing-minimising sweeps */
+  nodeSort: 'value' | 'barycenter' | 'median';
+  /**
+   * Drawing backend: SVG elements, a single canvas, or canvas once the graph
+   * has more than `canvasThreshold` links ('auto')
+   */
+  renderer: 'svg' | 'canvas' | 'auto';
+  /** Link count above which `renderer: 'auto'` switches to canvas */
+  canvasThreshold: number;
   /** Number of layout relaxation iterations */
   iterations: number;
+  /** How values map to thickness; sqrt and log keep small flows visible next to huge ones */
+  valueScale: 'linear' | 'sqrt' | 'log';
+  /** Minimum thickness of a link with a non-zero value, in pixels */
+  minLinkWidth: number;
+  /** Minimum node thickness across the flow, in pixels */
+  minNodeHeight: number;
+  /** Spacing in pixels between stacked loops of circular (back) links */
+  circularLinkGap: number;
+  /** SVG dash pattern for the outline of circular links */
+  circularLinkDash: string;
+  /**
+   * URL of the bundled layout worker (`dist/layout.worker.global.js`). When
+   * set, layout runs off the main thread; without it, or where Workers are
+   * unavailable, layout stays synchronous.
+   */
+  layoutWorker?: string | URL;
+  /** Merge small nodes into a synthetic "Other" node per column */
+  otherBucket?: OtherBucketConfig;
+  /**
+   * Colors and fonts of labels, badges, shadows and tooltips: a built-in
+   * theme, or tokens overriding one (`base`, default 'dark')
+   */
+  theme: ThemeName | ThemeConfig;
+}
+
+export type ThemeName = 'dark' | 'light' | 'high-contrast';
+
+/** Tokens of a theme; node and link colors come from the palette instead */
+export interface SankeyTheme {
+  /** Font stack of labels, badges and tooltips */
+  fontFamily: string;
+  /** Node names */
+  labelColor: string;
+  /** Node values under the names */
+  valueColor: string;
+  /** Outline drawn behind label text so it stays legible over ribbons, or 'none' */
+  labelHalo: string;
+  badgeBackground: string;
+  badgeColor: string;
+  /** Ribbon color with `linkColor: 'solid'` */
+  linkSolidColor: string;
+  /** Drop shadow color under nodes ('transparent' for none) */
+  nodeShadow: string;
+  /** Opacity of nodes outside the highlighted flow */
+  nodeDimOpacity: number;
+  /** Opacity of labels outside the highlighted flow */
+  labelDimOpacity: number;
+  tooltipBackground: string;
+  /** CSS backdrop-filter behind the tooltip, e.g. 'blur(12px)' or 'none' */
+  tooltipBackdrop: string;
+  tooltipColor: string;
+  /** Secondary tooltip text: captions and breakdowns */
+  tooltipMutedColor: string;
+  /** Figures called out in tooltips */
+  tooltipEmphasisColor: string;
+  /** Tooltip border and separator lines */
+  tooltipBorder: string;
+  /** CSS box-shadow of the tooltip */
+  tooltipShadow: string;
+  /** Rising values and goal reach in tooltips */
+  positiveColor: string;
+  /** Falling values and heavy drop-off in tooltips */
+  negativeColor: string;
+  /** Neutral tooltip callouts, such as modest drop-off */
+  accentColor: string;
+}
+
+/** Overrides on top of a built-in theme */
+export interface ThemeConfig extends Partial<SankeyTheme> {
+  base?: ThemeName;
+}
+
+/**
+ * Thresholds for merging long-tail nodes into a per-column "Other" node.
+ * A node is merged when it fails any of the thresholds given.
+ */
+export interface OtherBucketConfig {
+  /** Merge nodes whose value is below this */
+  minValue?: number;
+  /** Merge nodes below this share (0–1) of their column's total value */
+  minShare?: number;
+  /** Keep only the N largest nodes in each column */
+  topN?: number;
+  /** Label of the merged node (default 'Other') */
+  label?: string;
+}
+
+export type Orientation = 'horizontal' | 'vertical';
+
+/** Layout quality measures (lower is better) */
+export interface LayoutQuality {
+  /** Pairs of links whose ribbons cross */
+  crossings: number;
+  /** Sum of link length in pixels, weighted by link value */
+  weightedLinkLength: number;
+  /** Total overlap in pixels between nodes in the same column */
+  overlap: number;
 }
 
 export interface Padding {
@@ -105,16 +289,117 @@ export interface ColumnDef {
 
 /** Configuration for transforming tabular data into a graph */
 export interface TransformConfig {
-  /** Column name for source node */
+  /** Column name for source node id */
   sourceField: string;
-  /** Column name for target node */
+  /** Column name for target node id */
   targetField: string;
-  /** Column name for value/weight */
-  valueField: string;
-  /** Optional: column for source node color */
+  /** Column name for value/weight (default: each row counts 1) */
+  valueField?: string;
+  /**
+   * Optional: several measures, e.g. ['sessions', 'revenue']. Each link keeps
+   * all of them in `values`; `valueField` (else the first of these) sizes the
+   * chart until `SankeyChart.setMeasure` picks another
+   */
+  valueFields?: string[];
+  /**
+   * How rows for the same source→target pair combine (default 'sum'):
+   * 'count' counts rows, 'count-distinct' counts distinct `distinctField`
+   * values, the rest apply to `valueField`
+   */
+  aggregate?: 'sum' | 'count' | 'count-distinct' | 'mean' | 'min' | 'max';
+  /** Column with the id counted by 'count-distinct', e.g. a user id; required for it */
+  distinctField?: string;
+  /** Optional: column with the source node's display label (default: its id) */
+  sourceLabelField?: string;
+  /** Optional: column with the target node's display label (default: its id) */
+  targetLabelField?: string;
+  /** Optional: display labels by node id, e.g. translations; wins over label fields */
+  labels?: Record<string, string>;
+  /** Optional: column for source node color — a literal color (#hex, rgb(), hsl()) or a category */
   sourceColorField?: string;
-  /** Optional: column for target node color */
+  /** Optional: column for target node color — a literal color (#hex, rgb(), hsl()) or a category */
   targetColorField?: string;
+  /** Optional: column pinning the source node to a layout column (index or stage name) */
+  sourceColumnField?: string;
+  /** Optional: column pinning the target node to a layout column (index or stage name) */
+  targetColumnField?: string;
+  /** Optional: column giving the source node's position within its layout column */
+  sourceOrderField?: string;
+  /** Optional: column giving the target node's position within its layout column */
+  targetOrderField?: string;
+  /** Optional: ordered stage names; column fields holding a stage name map to its index */
+  stages?: string[];
+}
+
+/** Configuration for building a step-indexed journey graph from raw event rows */
+export interface EventLogConfig {
+  /** Column identifying the user or session each event belongs to */
+  sessionField: string;
+  /** Column with the event time: Date, epoch milliseconds, or a parseable date string */
+  timestampField: string;
+  /** Column with the event name */
+  eventField: string;
+  /** Optional: keep at most this many steps per session (default: all) */
+  maxSteps?: number;
+  /** Optional: treat repeated consecutive events (e.g. reloads) as one step (default true) */
+  collapseRepeats?: boolean;
+  /** Optional: end every session in an explicit exit step; a string sets its label (default 'Exit') */
+  exitNode?: boolean | string;
+}
+
+/** Configuration for wide path rows such as `{ step1, step2, step3, count }` */
+export interface PathConfig {
+  /** Step columns in journey order; each becomes a layout column */
+  stepFields: string[];
+  /** Optional: column with the number of journeys per row (default: each row counts 1) */
+  valueField?: string;
+}
+
+/** Subgraph selection for `SankeyChart.filter`; all given criteria apply */
+export interface GraphFilterOptions {
+  /** Keep only these node ids */
+  includeNodes?: string[];
+  /** Drop these node ids */
+  excludeNodes?: string[];
+  /** Drop links below this value */
+  minLinkValue?: number;
+  /** Keep only the N largest links */
+  topLinks?: number;
+  /** Keep only flows into and out of one node, up to a number of hops each way (default: unlimited) */
+  focus?: { node: string; upstream?: number; downstream?: number };
+}
+
+/** Why a data row was left out of the graph */
+export type SkipReason =
+  | 'missing-source'
+  | 'missing-target'
+  | 'missing-session'
+  | 'missing-event'
+  | 'invalid-timestamp'
+  | 'missing-value'
+  | 'missing-distinct-id'
+  | 'invalid-value'
+  | 'non-positive-value'
+  | 'single-step';
+
+/** Row-level issues found while transforming tabular data */
+export interface RowIssues {
+  /** Rows left out of the graph, by index into `data.rows` */
+  skippedRows: Array<{ index: number; reason: SkipReason }>;
+  /** Values that weren't numbers and were converted, e.g. the string "12" */
+  coercedValues: Array<{ index: number; field: string; raw: unknown; value: number }>;
+}
+
+/** Validation report for a data set and the graph built from it */
+export interface SankeyDiagnostics extends RowIssues {
+  /** Links from a node to itself */
+  selfLoops: SankeyLink[];
+  /** Node ids of each group of nodes that form cycles (2 or more nodes) */
+  cycles: string[][];
+  /** Node ids of each connected component; more than one means the chart has disconnected parts */
+  components: string[][];
+  /** Nodes with both inflow and outflow where the two differ */
+  imbalance: Array<{ nodeId: string; inflow: number; outflow: number; difference: number }>;
 }
 
 /** Journey analysis result per node */
@@ -135,8 +420,54 @@ export interface JourneyMetrics {
   isSource: boolean;
   /** Is this a sink (exit) node? */
   isSink: boolean;
+  /** With goals: share of this node's flow that eventually reaches a goal (1 for goals) */
+  goalRate?: number;
+  /** With goals: volume through this node that eventually reaches a goal */
+  goalValue?: number;
+  /** With goals: goal volume that entered the graph here (entry nodes only, else 0) */
+  firstTouch?: number;
+  /** With goals: goal volume whose last step before the goal was this node */
+  lastTouch?: number;
+}
+
+/** A full journey through the graph with its estimated volume */
+export interface JourneyPath {
+  /** Node ids along the path, entry first */
+  nodeIds: string[];
+  /** Node labels along the path */
+  labels: string[];
+  /** Links followed, in order */
+  links: SankeyLink[];
+  /** Estimated number of journeys taking exactly this path */
+  value: number;
+  /** value / total flow leaving entry nodes */
+  share: number;
 }
 
+/** A node in a data export: its value and journey metrics */
+export interface ExportedNode extends JourneyMetrics {
+  value: number;
+  comparison?: ComparisonValues;
+}
+
+/** A link in a data export, with endpoints as node ids */
+export interface ExportedLink {
+  id?: string;
+  source: string;
+  target: string;
+  value: number;
+  values?: Record<string, number>;
+  category?: string;
+  comparison?: ComparisonValues;
+}
+
+export interface GraphExport {
+  nodes: ExportedNode[];
+  links: ExportedLink[];
+}
+
+export type DataExportFormat = 'csv' | 'json';
+
 /** Events emitted by the chart */
 export interface SankeyEvents {
   'node:hover': { node: SankeyNode; event: MouseEvent };
@@ -156,6 +487,7 @@ export const DEFAULT_CONFIG: SankeyConfig = {
   width: 800,
   height: 500,
   padding: { top: 20, right: 120, bottom: 20, left: 20 },
+  orientation: 'horizontal',
   nodeWidth: 18,
   nodePadding: 14,
   nodeAlign: 'justify',
@@ -167,8 +499,24 @@ export const DEFAULT_CONFIG: SankeyConfig = {
     '#7c8cbf', '#6aada8', '#d4896a', '#8e85c2',
     '#73b475', '#b5876e', '#7facc4', '#c4a55a',
   ],
+  colorAssignment: 'index',
+  linkColor: 'gradient',
+  comparisonColors: { decrease: '#d1605e', neutral: '#a3a8b4', increase: '#4c9a6a' },
+  comparisonRange: 0.5,
+  goalDisplay: 'tooltip',
   highlightMode: 'both',
   draggable: true,
+  transitionDuration: 450,
   tooltips: true,
+  diagnosticsOverlay: false,
+  nodeSort: 'barycenter',
+  renderer: 'auto',
+  canvasThreshold: 1500,
+  theme: 'dark',
   iterations: 32,
+  valueScale: 'linear',
+  minLinkWidth: 0,
+  minNodeHeight: 1,
+  circularLinkGap: 6,
+  circularLinkDash: '4 3',
 };
@@ -0,0 +1,473 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SankeyChart } from '../src/chart';
+import { THEMES } from '../src/render/theme';
+import type { TabularData, TransformConfig, SankeyNode } from '../src/types';
+
+const transformConfig: TransformConfig = {
+  sourceField: 'from',
+  targetField: 'to',
+  valueField: 'count',
+};
+
+function longTailData(): TabularData {
+  const rows: TabularData['rows'] = [
+    { from: 'Home', to: 'Pricing', count: 500 },
+    { from: 'Home', to: 'Docs', count: 300 },
+  ];
+  for (let i = 0; i < 20; i++) rows.push({ from: 'Home', to: `Page ${i}`, count: 1 + (i % 3) });
+  return { rows };
+}
+
+describe('SankeyChart', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  it('buckets long-tail nodes into "Other" and can undo it', async () => {
+    const chart = new SankeyChart(container, { otherBucket: { minShare: 0.01 }, transitionDuration: 0 });
+    await chart.setData(longTailData(), transformConfig);
+
+    const other = chart.getGraph()!.nodes.find(n => n.meta?.isOther)!;
+    expect(chart.getGraph()!.nodes).toHaveLength(4);
+    expect(other.meta!.members as SankeyNode[]).toHaveLength(20);
+    expect(container.querySelector(`rect[data-node-id="${other.id}"]`)).toBeTruthy();
+
+    await chart.updateConfig({ otherBucket: undefined });
+    expect(chart.getGraph()!.nodes).toHaveLength(23);
+    expect(container.querySelectorAll('rect[data-node-id]')).toHaveLength(23);
+    chart.destroy();
+  });
+
+  it('builds journeys from raw event rows', async () => {
+    const chart = new SankeyChart(container);
+    await chart.setData({
+      rows: [
+        { user: 'u1', at: 1, event: 'Home' },
+        { user: 'u1', at: 2, event: 'Pricing' },
+        { user: 'u2', at: 1, event: 'Home' },
+      ],
+    }, { sessionField: 'user', timestampField: 'at', eventField: 'event', exitNode: 'Left' });
+
+    expect(chart.getGraph()!.nodes.map(n => n.id)).toEqual(['[1,"Home"]', '[2,"Pricing"]', '[2,null]', '[3,null]']);
+    chart.destroy();
+  });
+
+  it('accepts wide step rows alongside source/target rows', async () => {
+    const chart = new SankeyChart(container);
+    await chart.setData({ rows: [{ a: 'Home', b: 'Pricing', c: 'Home', n: 3 }] }, { stepFields: ['a', 'b', 'c'], valueField: 'n' });
+    expect(chart.getGraph()!.nodes.map(n => n.id)).toEqual(['["a","Home"]', '["b","Pricing"]', '["c","Home"]']);
+
+    await chart.setData({ rows: [{ from: 'Home', to: 'Pricing', count: 3 }] }, transformConfig);
+    expect(chart.getGraph()!.nodes.map(n => n.id)).toEqual(['Home', 'Pricing']);
+    chart.destroy();
+  });
+
+  it('resolves hovered links by id even when ids contain arrows', async () => {
+    const chart = new SankeyChart(container);
+    await chart.setData({
+      rows: [
+        { from: 'A→B', to: 'C', count: 4 },
+        { from: 'A', to: 'B→C', count: 6 },
+      ],
+    }, transformConfig);
+
+    const hovered: string[] = [];
+    chart.on('link:hover', ({ link }) => hovered.push(`${link.source.id}|${link.target.id}`));
+    for (const path of Array.from(container.querySelectorAll('path[data-link-id]'))) {
+      path.dispatchEvent(new MouseEvent('mouseenter'));
+    }
+
+    expect(hovered.sort()).toEqual(['A|B→C', 'A→B|C']);
+    chart.destroy();
+  });
+
+  it('exposes diagnostics and shows them in an optional overlay', async () => {
+    const chart = new SankeyChart(container, { diagnosticsOverlay: true });
+    await chart.setData({
+      rows: [
+        { from: 'A', to: 'B', count: 10 },
+        { from: 'A', to: '', count: 3 },
+        { from: 'B', to: 'C', count: 'oops' },
+      ],
+    }, transformConfig);
+
+    expect(chart.getDiagnostics()!.skippedRows).toHaveLength(2);
+    const overlay = container.querySelector<HTMLElement>('.sankey-diagnostics')!;
+    expect(overlay.style.display).toBe('block');
+    expect(overlay.textContent).toContain('2 rows skipped (1 missing target, 1 invalid value)');
+
+    await chart.setData({ rows: [{ from: 'A', to: 'B', count: 10 }] }, transformConfig);
+    expect(overlay.style.display).toBe('none');
+    chart.destroy();
+  });
+
+  it('styles the diagnostics overlay from the theme', async () => {
+    const chart = new SankeyChart(container, { diagnosticsOverlay: true, theme: 'light' });
+    await chart.setData({ rows: [{ from: 'A', to: 'B', count: 10 }, { from: 'A', to: '', count: 3 }] }, transformConfig);
+
+    const overlay = container.querySelector<HTMLElement>('.sankey-diagnostics')!;
+    // Colors read back the way the DOM serializes them
+    const css = (color: string) => Object.assign(document.createElement('div').style, { color }).color;
+    expect(overlay.style.fontFamily).toBe(THEMES.light.fontFamily);
+    expect(overlay.style.background).toBe(css(THEMES.light.tooltipBackground));
+    expect(overlay.style.color).toBe(css(THEMES.light.tooltipColor));
+    expect(overlay.style.borderColor).toBe(css(THEMES.light.accentColor));
+
+    await chart.updateConfig({ theme: 'high-contrast' });
+    expect(overlay.style.borderColor).toBe(css(THEMES['high-contrast'].accentColor));
+    chart.destroy();
+  });
+
+  it('filters and focuses without setting the data again', async () => {
+    const chart = new SankeyChart(container, { transitionDuration: 0 });
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60 },
+        { from: 'Home', to: 'Blog', count: 40 },
+        { from: 'Pricing', to: 'Checkout', count: 50 },
+        { from: 'Blog', to: 'Exit', count: 35 },
+      ],
+    }, transformConfig);
+    const rendered = () => Array.from(container.querySelectorAll('rect[data-node-id]')).map(r => r.getAttribute('data-node-id'));
+
+    await chart.focus('Checkout');
+    expect(rendered()).toEqual(['Home', 'Pricing', 'Checkout']);
+    expect(chart.getFilter()).toEqual({ focus: { node: 'Checkout' } });
+
+    await chart.filter({ minLinkValue: 45 });
+    expect(rendered()).toEqual(['Home', 'Pricing', 'Checkout']);
+
+    await chart.clearFilter();
+    expect(rendered()).toHaveLength(5);
+    expect(chart.getFilter()).toBeNull();
+    chart.destroy();
+  });
+
+  it('colors compared flows by change and shows both values in tooltips', async () => {
+    const chart = new SankeyChart(container);
+    await chart.setComparisonData(
+      { rows: [{ from: 'A', to: 'B', count: 150 }, { from: 'A', to: 'C', count: 50 }, { from: 'A', to: 'D', count: 80 }] },
+      { rows: [{ from: 'A', to: 'B', count: 100 }, { from: 'A', to: 'C', count: 100 }, { from: 'A', to: 'D', count: 80 }] },
+      transformConfig,
+    );
+    const fill = (target: string) => container.querySelector(`path[data-target="${target}"]`)!.getAttribute('fill');
+
+    expect(fill('B')).toBe('#4c9a6a');
+    expect(fill('C')).toBe('#d1605e');
+    expect(fill('D')).toBe('#a3a8b4');
+
+    container.querySelector(`path[data-target="C"]`)!.dispatchEvent(new MouseEvent('mouseenter'));
+    const tooltip = container.querySelector('.sankey-tooltip')!.textContent;
+    expect(tooltip).toContain('Baseline: 100');
+    expect(tooltip).toContain('Change: -50 (-50.0%)');
+    chart.destroy();
+  });
+
+  it('keeps a selected journey highlighted between hovers', async () => {
+    const chart = new SankeyChart(container);
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60 },
+        { from: 'Home', to: 'Blog', count: 40 },
+        { from: 'Pricing', to: 'Checkout', count: 50 },
+      ],
+    }, transformConfig);
+    const opacity = (target: string) => container.querySelector(`path[data-target="${target}"]`)!.getAttribute('fill-opacity');
+
+    const [top] = chart.getTopPaths(1);
+    expect(top.nodeIds).toEqual(['Home', 'Pricing', 'Checkout']);
+    chart.highlightPath(top);
+    expect(opacity('Checkout')).toBe('0.45');
+    expect(opacity('Blog')).toBe('0.04');
+
+    const blog = container.querySelector('path[data-target="Blog"]')!;
+    blog.dispatchEvent(new MouseEvent('mouseenter'));
+    blog.dispatchEvent(new MouseEvent('mouseleave'));
+    expect(opacity('Blog')).toBe('0.04');
+
+    chart.highlightPath(null);
+    expect(opacity('Blog')).toBe('0.18');
+    chart.destroy();
+  });
+
+  it('shows goal reach in tooltips and badges', async () => {
+    const chart = new SankeyChart(container, { height: 600, goals: ['Purchase'], goalDisplay: 'both' });
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 100 },
+        { from: 'Pricing', to: 'Purchase', count: 25 },
+        { from: 'Pricing', to: 'Exit', count: 75 },
+      ],
+    }, transformConfig);
+
+    expect(chart.getJourneyMetrics().find(m => m.nodeId === 'Home')!.firstTouch).toBe(25);
+    const badges = Array.from(container.querySelectorAll('.sankey-label-group text:not([data-node-id])')).map(t => t.textContent);
+    expect(badges).toEqual(['25%', '25%']);
+
+    container.querySelector('rect[data-node-id="Pricing"]')!.dispatchEvent(new MouseEvent('mouseenter'));
+    const tooltip = container.querySelector('.sankey-tooltip')!.textContent;
+    expect(tooltip).toContain('Reaches goal: 25.0%');
+    expect(tooltip).toContain('Last-touch goals: 25');
+    chart.destroy();
+  });
+
+  it('applies the theme to labels, tooltips, highlighting and node shadows', async () => {
+    const chart = new SankeyChart(container, { theme: 'light' });
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60 },
+        { from: 'Home', to: 'Blog', count: 40 },
+      ],
+    }, transformConfig);
+    const label = () => container.querySelector('.sankey-labels text')!;
+    const tooltip = container.querySelector('.sankey-tooltip') as HTMLElement;
+    const shadow = () => container.querySelector('#sankey-node-shadow feDropShadow')!.getAttribute('flood-color');
+
+    expect(label().getAttribute('fill')).toBe('#2b2d3a');
+    expect(label().getAttribute('stroke')).toBe('rgba(255,255,255,0.85)');
+    expect(shadow()).toBe('rgba(0,0,0,0.15)');
+
+    container.querySelector('path[data-target="Blog"]')!.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(tooltip.style.background).toBe('rgba(255, 255, 255, 0.94)');
+    expect(container.querySelector('rect[data-node-id="Pricing"]')!.getAttribute('opacity')).toBe('0.25');
+
+    await chart.updateConfig({ theme: { base: 'high-contrast', labelColor: '#ffff00' } });
+    expect(label().getAttribute('fill')).toBe('#ffff00');
+    expect(shadow()).toBe('transparent');
+    expect(container.querySelectorAll('filter')).toHaveLength(3);
+    container.querySelector('rect[data-node-id="Home"]')!.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(tooltip.style.background).toBe('rgb(0, 0, 0)');
+    chart.destroy();
+  });
+
+  it('draws one ribbon per segment when links are colored by a field', async () => {
+    const chart = new SankeyChart(container, { linkColor: { field: 'segment' } });
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60, segment: 'Paid' },
+        { from: 'Home', to: 'Pricing', count: 40, segment: 'Organic' },
+      ],
+    }, transformConfig);
+
+    const ribbons = container.querySelectorAll('path[data-target="Pricing"]');
+    expect(ribbons).toHaveLength(2);
+    expect(ribbons[0].getAttribute('fill')).not.toBe(ribbons[1].getAttribute('fill'));
+    ribbons[1].dispatchEvent(new MouseEvent('mouseenter'));
+    expect(container.querySelector('.sankey-tooltip')!.textContent).toContain('segment: Organic');
+    chart.destroy();
+  });
+
+  it('switches the active measure without setting the data again', async () => {
+    const chart = new SankeyChart(container);
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', sessions: 90, revenue: 100 },
+        { from: 'Home', to: 'Blog', sessions: 10, revenue: 900 },
+      ],
+    }, { sourceField: 'from', targetField: 'to', valueFields: ['sessions', 'revenue'] });
+    const graph = chart.getGraph()!;
+    const height = (id: string) => chart.getGraph()!.nodes.find(n => n.id === id)!.height;
+
+    expect(chart.getMeasures()).toEqual(['sessions', 'revenue']);
+    expect(chart.getMeasure()).toBe('sessions');
+    expect(height('Pricing')).toBeGreaterThan(height('Blog'));
+
+    await chart.setMeasure('revenue');
+    expect(chart.getMeasure()).toBe('revenue');
+    expect(chart.getGraph()!.nodes.map(n => n.id)).toEqual(graph.nodes.map(n => n.id));
+    expect(height('Blog')).toBeGreaterThan(height('Pricing'));
+
+    container.querySelector('rect[data-node-id="Home"]')!.dispatchEvent(new MouseEvent('mouseenter'));
+    const tooltip = container.querySelector('.sankey-tooltip')!.textContent;
+    expect(tooltip).toContain('sessions: 100');
+    expect(tooltip).toContain('revenue: 1,000');
+    chart.destroy();
+  });
+
+  it('compares the active measure after switching measures', async () => {
+    const chart = new SankeyChart(container);
+    const config = { sourceField: 'from', targetField: 'to', valueFields: ['sessions', 'revenue'] };
+    await chart.setComparisonData(
+      { rows: [{ from: 'Home', to: 'Pricing', sessions: 10, revenue: 1000 }] },
+      { rows: [{ from: 'Home', to: 'Pricing', sessions: 5, revenue: 800 }] },
+      config,
+    );
+    expect(chart.getGraph()!.links[0].comparison).toEqual({ baseline: 5, delta: 5, change: 1 });
+
+    await chart.setMeasure('revenue');
+    const graph = chart.getGraph()!;
+    expect(graph.links[0].value).toBe(1000);
+    expect(graph.links[0].comparison).toEqual({ baseline: 800, delta: 200, change: 0.25 });
+    expect(graph.nodes.find(n => n.id === 'Home')!.comparison).toEqual({ baseline: 800, delta: 200, change: 0.25 });
+
+    await chart.setMeasure('sessions');
+    expect(chart.getGraph()!.links[0].comparison).toEqual({ baseline: 5, delta: 5, change: 1 });
+    chart.destroy();
+  });
+
+  it('updates the drawn elements in place and follows drags at once', async () => {
+    const chart = new SankeyChart(container);
+    const rows = [
+      { from: 'Home', to: 'Pricing', count: 60 },
+      { from: 'Home', to: 'Blog', count: 40 },
+    ];
+    await chart.setData({ rows }, transformConfig);
+    const pricing = container.querySelector('rect[data-node-id="Pricing"]')!;
+    const ribbon = container.querySelector('path[data-target="Pricing"]')!;
+
+    await chart.setData({ rows: [{ ...rows[0], count: 90 }, rows[1]] }, transformConfig);
+    expect(container.querySelector('rect[data-node-id="Pricing"]')).toBe(pricing);
+    expect(container.querySelector('path[data-target="Pricing"]')).toBe(ribbon);
+    pricing.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(container.querySelector('.sankey-tooltip')!.textContent).toContain('90');
+
+    const before = ribbon.getAttribute('d');
+    pricing.dispatchEvent(new MouseEvent('mousedown', { clientY: 0 }));
+    document.dispatchEvent(new MouseEvent('mousemove', { clientY: 30 }));
+    document.dispatchEvent(new MouseEvent('mouseup'));
+    expect(ribbon.getAttribute('d')).not.toBe(before);
+    expect(pricing.getAttribute('y')).toBe(String(chart.getGraph()!.nodes.find(n => n.id === 'Pricing')!.y));
+    chart.destroy();
+  });
+
+  it('switches to canvas for large graphs and keeps events working through hit testing', async () => {
+    // jsdom can't draw; hit testing doesn't need to
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    const chart = new SankeyChart(container, { canvasThreshold: 2 });
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60 },
+        { from: 'Home', to: 'Blog', count: 40 },
+        { from: 'Pricing', to: 'Checkout', count: 50 },
+      ],
+    }, transformConfig);
+
+    const canvas = chart.getCanvas()!;
+    expect(canvas).toBeTruthy();
+    expect(chart.getSVG().style.display).toBe('none');
+    expect(container.querySelector('path')).toBeNull();
+
+    const events: string[] = [];
+    chart.on('link:hover', ({ link }) => events.push(`hover ${link.target.id}`));
+    chart.on('link:leave', ({ link }) => events.push(`leave ${link.target.id}`));
+    chart.on('node:click', ({ node }) => events.push(`click ${node.id}`));
+
+    const link = chart.getGraph()!.links.find(l => l.target.id === 'Blog')!;
+    const x = (link.source.x + link.source.width + link.target.x) / 2;
+    const y = (link.source.y + link.sy + link.target.y + link.ty) / 2 + link.width / 2;
+    canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: x, clientY: y }));
+    canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: x, clientY: y + 0.5 }));
+    canvas.dispatchEvent(new MouseEvent('mouseleave'));
+    const home = chart.getGraph()!.nodes[0];
+    canvas.dispatchEvent(new MouseEvent('click', { clientX: home.x + 1, clientY: home.y + 1 }));
+    expect(events).toEqual(['hover Blog', 'leave Blog', 'click Home']);
+    expect(container.querySelector('.sankey-tooltip')!.textContent).toContain('Home → Blog');
+
+    await chart.updateConfig({ renderer: 'svg' });
+    expect(chart.getCanvas()).toBeNull();
+    expect(container.querySelectorAll('path[data-link-id]')).toHaveLength(3);
+    chart.destroy();
+    getContext.mockRestore();
+  });
+
+  it('exports a standalone SVG, a high-DPI PNG and the data', async () => {
+    const chart = new SankeyChart(container, { width: 400, height: 300, goals: ['Checkout'] });
+    await chart.setData({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60 },
+        { from: 'Pricing', to: 'Checkout', count: 30 },
+      ],
+    }, transformConfig);
+
+    const svg = chart.exportSVG({ fontCSS: '@font-face { font-family: Inter; src: url(data:font/woff2;base64,AAAA); }' });
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(doc.documentElement.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+    expect(doc.querySelector('defs style')!.textContent).toContain('@font-face');
+    // Every url(#...) reference resolves inside the document
+    const refs = Array.from(svg.matchAll(/url\(#([^)]+)\)/g), m => m[1]);
+    expect(refs.length).toBeGreaterThan(0);
+    for (const id of refs) expect(doc.getElementById(id)).toBeTruthy();
+
+    // jsdom can't decode images or draw; stand in for both
+    let loaded = '';
+    vi.stubGlobal('Image', class {
+      onload: (() => void) | null = null;
+      set src(url: string) {
+        loaded = url;
+        queueMicrotask(() => this.onload?.());
+      }
+    });
+    const drawImage = vi.fn();
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({ drawImage } as unknown as CanvasRenderingContext2D);
+    let size = '';
+    const toBlob = vi.spyOn(HTMLCanvasElement.prototype, 'toBlob')
+      .mockImplementation(function (this: HTMLCanvasElement, callback: BlobCallback) {
+        size = `${this.width}x${this.height}`;
+        callback(new Blob(['png'], { type: 'image/png' }));
+      });
+
+    const png = await chart.exportPNG({ scale: 3 });
+    expect(png.type).toBe('image/png');
+    expect(size).toBe('1200x900');
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 1200, 900);
+    expect(decodeURIComponent(loaded)).toContain('<svg xmlns=');
+    await chart.exportPNG();
+    expect(size).toBe('800x600'); // at least 2x by default
+
+    const csv = chart.exportData('csv').split('\n');
+    expect(csv[0]).toContain('goalRate');
+    expect(csv).toContain('link,,,Home,Pricing,60,,,,,,,,,,,');
+    const json = JSON.parse(chart.exportData('json'));
+    expect(json.nodes.find((n: { nodeId: string }) => n.nodeId === 'Home').goalRate).toBe(0.5);
+
+    toBlob.mockRestore();
+    getContext.mockRestore();
+    vi.unstubAllGlobals();
+    chart.destroy();
+  });
+
+  it('embeds the page fonts for the theme in default exports', async () => {
+    const style = document.createElement('style');
+    style.textContent = '@font-face { font-family: "Inter"; src: url(fonts/inter.woff2) format("woff2"); }\n' +
+      '@font-face { font-family: Other; src: url(fonts/other.woff2); }';
+    document.head.appendChild(style);
+    const chart = new SankeyChart(container);
+    await chart.setData({ rows: [{ from: 'Home', to: 'Pricing', count: 60 }] }, transformConfig);
+
+    const fontCSS = new DOMParser().parseFromString(chart.exportSVG(), 'image/svg+xml')
+      .querySelector('defs style')!.textContent!;
+    expect(fontCSS).toContain('@font-face');
+    expect(fontCSS).toContain(new URL('fonts/inter.woff2', document.baseURI).href);
+    expect(fontCSS).not.toContain('Other');
+    expect(chart.exportSVG({ fontCSS: '' })).not.toContain('<style');
+
+    // The PNG's SVG can't fetch, so the font is downloaded into it
+    let loaded = '';
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve({ ok: true, blob: () => Promise.resolve(new Blob(['wOF2'])) })));
+    vi.stubGlobal('Image', class {
+      onload: (() => void) | null = null;
+      set src(url: string) {
+        loaded = decodeURIComponent(url);
+        queueMicrotask(() => this.onload?.());
+      }
+    });
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockReturnValue({ drawImage: () => {} } as unknown as CanvasRenderingContext2D);
+    const toBlob = vi.spyOn(HTMLCanvasElement.prototype, 'toBlob')
+      .mockImplementation((callback: BlobCallback) => callback(new Blob(['png'], { type: 'image/png' })));
+
+    await chart.exportPNG();
+    expect(loaded).toContain('url(&quot;data:');
+    expect(loaded).not.toContain('fonts/inter.woff2');
+
+    toBlob.mockRestore();
+    getContext.mockRestore();
+    vi.unstubAllGlobals();
+    style.remove();
+    chart.destroy();
+  });
+});
@@ -1,6 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { SankeyLayout } from '../src/layout/sankey';
 import { PathGenerator } from '../src/layout/path';
+import { fromLayoutRequest, toLayoutResult } from '../src/layout/transfer';
+import type { LayoutRequest } from '../src/layout/transfer';
 import { DEFAULT_CONFIG } from '../src/types';
 import type { SankeyNode, SankeyLink, SankeyGraph, SankeyConfig } from '../src/types';
 
@@ -124,6 +126,30 @@ describe('SankeyLayout', () => {
     expect(sorted[0].width + sorted[1].width).toBeCloseTo(a.height, 5);
   });
 
+  it('lays out top-to-bottom in vertical orientation', () => {
+    const a = makeNode('A');
+    const b = makeNode('B');
+    const c = makeNode('C');
+    const links = [makeLink(a, b, 10), makeLink(b, c, 10)];
+    const config = makeConfig({
+      orientation: 'vertical',
+      width: 300,
+      height: 900,
+      padding: { top: 30, right: 10, bottom: 40, left: 10 },
+    });
+
+    new SankeyLayout(config).compute({ nodes: [a, b, c], links });
+
+    expect(a.y).toBe(30); // top padding
+    expect(b.y).toBeGreaterThan(a.y);
+    expect(c.y + c.height).toBeCloseTo(900 - 40, 5);
+    expect(a.height).toBe(config.nodeWidth);
+    // Flow thickness now runs across the x axis
+    expect(a.width).toBeGreaterThan(config.nodeWidth);
+    expect(a.x).toBeGreaterThanOrEqual(10);
+    expect(a.x + a.width).toBeLessThanOrEqual(300 - 10 + 1e-6);
+  });
+
   it('handles empty graph', () => {
     const layout = new SankeyLayout(makeConfig());
     const graph = layout.compute({ nodes: [], links: [] });
@@ -140,6 +166,410 @@ describe('SankeyLayout', () => {
   });
 });
 
+describe('SankeyLayout node alignment', () => {
+  // A → B → C → D, plus a short exit A → E and a late entry F → C
+  function alignmentGraph() {
+    const nodes = ['A', 'B', 'C', 'D', 'E', 'F'].map(id => makeNode(id));
+    const [a, b, c, d, e, f] = nodes;
+    const links = [
+      makeLink(a, b, 10),
+      makeLink(b, c, 8),
+      makeLink(c, d, 10),
+      makeLink(a, e, 2),
+      makeLink(f, c, 2),
+    ];
+    return { nodes, links };
+  }
+
+  function columnsFor(nodeAlign: SankeyConfig['nodeAlign']): Record<string, number> {
+    const graph = alignmentGraph();
+    new SankeyLayout(makeConfig({ nodeAlign })).compute(graph);
+    return Object.fromEntries(graph.nodes.map(n => [n.id, n.depth]));
+  }
+
+  it('left places nodes by distance from the sources', () => {
+    expect(columnsFor('left')).toEqual({ A: 0, B: 1, C: 2, D: 3, E: 1, F: 0 });
+  });
+
+  it('right places nodes by distance to the sinks', () => {
+    expect(columnsFor('right')).toEqual({ A: 0, B: 1, C: 2, D: 3, E: 3, F: 1 });
+  });
+
+  it('justify pushes sinks to the last column', () => {
+    expect(columnsFor('justify')).toEqual({ A: 0, B: 1, C: 2, D: 3, E: 3, F: 0 });
+  });
+
+  it('center pulls sources and sinks next to their neighbours', () => {
+    expect(columnsFor('center')).toEqual({ A: 0, B: 1, C: 2, D: 3, E: 1, F: 1 });
+  });
+
+  it('gives each mode a distinct column assignment for the same graph', () => {
+    const modes: SankeyConfig['nodeAlign'][] = ['left', 'right', 'center', 'justify'];
+    const layouts = new Set(modes.map(mode => JSON.stringify(columnsFor(mode))));
+    expect(layouts.size).toBe(modes.length);
+  });
+
+  it('center places pass-through nodes midway between inputs and outputs', () => {
+    const [a, b, c, d, e, p] = ['A', 'B', 'C', 'D', 'E', 'P'].map(id => makeNode(id));
+    const links = [
+      makeLink(a, b, 5), makeLink(b, c, 5), makeLink(c, d, 5), makeLink(d, e, 5),
+      makeLink(a, p, 3), makeLink(p, e, 3),
+    ];
+    const nodes = [a, b, c, d, e, p];
+
+    new SankeyLayout(makeConfig({ nodeAlign: 'left' })).compute({ nodes, links });
+    expect(p.depth).toBe(1);
+    new SankeyLayout(makeConfig({ nodeAlign: 'right' })).compute({ nodes, links });
+    expect(p.depth).toBe(3);
+    new SankeyLayout(makeConfig({ nodeAlign: 'center' })).compute({ nodes, links });
+    expect(p.depth).toBe(2);
+    expect(e.depth).toBe(4);
+  });
+
+  it('keeps every link pointing forward in all modes', () => {
+    for (const nodeAlign of ['left', 'right', 'center', 'justify'] as const) {
+      const graph = alignmentGraph();
+      new SankeyLayout(makeConfig({ nodeAlign })).compute(graph);
+      for (const link of graph.links) {
+        expect(link.target.depth).toBeGreaterThan(link.source.depth);
+      }
+    }
+  });
+});
+
+describe('SankeyLayout cycles', () => {
+  it('marks the back-link of a loop as circular and keeps the forward layout', () => {
+    const [home, cart, product, checkout] = ['Home', 'Cart', 'Product', 'Checkout'].map(id => makeNode(id));
+    const links = [
+      makeLink(home, cart, 100),
+      makeLink(cart, product, 60),
+      makeLink(product, cart, 20),
+      makeLink(product, checkout, 40),
+    ];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [home, cart, product, checkout], links });
+
+    expect(links.filter(l => l.circular)).toEqual([links[2]]);
+    expect(home.depth).toBe(0);
+    expect(cart.depth).toBe(1);
+    expect(product.depth).toBe(2);
+    expect(checkout.depth).toBe(3);
+  });
+
+  it('lays out a cycle with no source nodes', () => {
+    const [a, b, c] = ['A', 'B', 'C'].map(id => makeNode(id));
+    const links = [makeLink(a, b, 5), makeLink(b, c, 5), makeLink(c, a, 5)];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [a, b, c], links });
+
+    expect(links.filter(l => l.circular)).toHaveLength(1);
+    expect(links[2].circular).toBe(true);
+    expect([a.depth, b.depth, c.depth]).toEqual([0, 1, 2]);
+  });
+
+  it('treats self-links as circular', () => {
+    const a = makeNode('A');
+    const b = makeNode('B');
+    const links = [makeLink(a, b, 10), makeLink(b, b, 3)];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [a, b], links });
+
+    expect(links[0].circular).toBe(false);
+    expect(links[1].circular).toBe(true);
+    expect(b.depth).toBe(1);
+  });
+
+  it('routes loops outside the node band and inside the chart', () => {
+    const [a, b, c] = ['A', 'B', 'C'].map(id => makeNode(id));
+    const links = [makeLink(a, b, 50), makeLink(b, c, 50), makeLink(c, a, 10), makeLink(c, b, 5)];
+    const config = makeConfig({ height: 400 });
+
+    new SankeyLayout(config).compute({ nodes: [a, b, c], links });
+
+    const nodeTop = Math.min(a.y, b.y, c.y);
+    const nodeBottom = Math.max(a.y + a.height, b.y + b.height, c.y + c.height);
+    for (const link of links.filter(l => l.circular)) {
+      expect(link.circularGap).toBeGreaterThan(0);
+      if (link.circularSide === 'top') {
+        expect(link.circularY! + link.width).toBeLessThanOrEqual(nodeTop);
+        expect(link.circularY!).toBeGreaterThanOrEqual(config.padding.top - 1e-6);
+      } else {
+        expect(link.circularY! - link.width).toBeGreaterThanOrEqual(nodeBottom);
+        expect(link.circularY!).toBeLessThanOrEqual(config.height - config.padding.bottom + 1e-6);
+      }
+    }
+  });
+
+  it('stacks circular links at the edge of their nodes', () => {
+    const [a, b] = ['A', 'B'].map(id => makeNode(id));
+    const forward = makeLink(a, b, 30);
+    const back = makeLink(b, a, 10);
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [a, b], links: [forward, back] });
+
+    if (back.circularSide === 'top') {
+      expect(back.sy).toBe(0);
+      expect(back.ty).toBe(0);
+    } else {
+      expect(back.sy).toBeCloseTo(b.height - back.width, 5);
+      expect(back.ty).toBeCloseTo(a.height - back.width, 5);
+    }
+  });
+});
+
+describe('SankeyLayout ordering and quality', () => {
+  // Sorting by value puts S1 above S2 and X above Y, which makes S1 → Y
+  // cross S2 → X. Putting Y above X removes the crossing.
+  function crossingGraph() {
+    const [s1, s2, x, y] = ['S1', 'S2', 'X', 'Y'].map(id => makeNode(id));
+    const links = [makeLink(s1, y, 45), makeLink(s1, x, 15), makeLink(s2, x, 40)];
+    return { nodes: [s1, s2, x, y], links };
+  }
+
+  function qualityFor(nodeSort: SankeyConfig['nodeSort']) {
+    const graph = crossingGraph();
+    const layout = new SankeyLayout(makeConfig({ nodeSort, iterations: 0 }));
+    layout.compute(graph);
+    return layout.quality(graph);
+  }
+
+  it('value ordering leaves avoidable crossings', () => {
+    expect(qualityFor('value').crossings).toBe(1);
+  });
+
+  it('barycenter and median sweeps remove them', () => {
+    expect(qualityFor('barycenter').crossings).toBe(0);
+    expect(qualityFor('median').crossings).toBe(0);
+  });
+
+  it('fewer crossings also shortens the weighted link length', () => {
+    expect(qualityFor('barycenter').weightedLinkLength)
+      .toBeLessThan(qualityFor('value').weightedLinkLength);
+  });
+
+  it('reports no overlap for a regular layout', () => {
+    const graph = crossingGraph();
+    const layout = new SankeyLayout(makeConfig());
+    layout.compute(graph);
+    const quality = layout.quality(graph);
+
+    expect(quality.overlap).toBe(0);
+    expect(quality.weightedLinkLength).toBeGreaterThan(0);
+  });
+
+  it('reports overlap between nodes in the same column', () => {
+    const a = makeNode('A', { depth: 0, x: 0, y: 0, width: 10, height: 50 });
+    const b = makeNode('B', { depth: 0, x: 0, y: 30, width: 10, height: 50 });
+    const quality = new SankeyLayout(makeConfig()).quality({ nodes: [a, b], links: [] });
+    expect(quality.overlap).toBe(20);
+  });
+});
+
+describe('SankeyLayout column and order hints', () => {
+  it('keeps pinned nodes in their column when a stage has no traffic', () => {
+    const acquisition = makeNode('Acquisition', { column: 0 });
+    const revenue = makeNode('Revenue', { column: 2 });
+    const links = [makeLink(acquisition, revenue, 10)];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [acquisition, revenue], links });
+
+    expect(acquisition.depth).toBe(0);
+    expect(revenue.depth).toBe(2);
+  });
+
+  it('pushes unpinned nodes after pinned inputs', () => {
+    const a = makeNode('A', { column: 2 });
+    const b = makeNode('B');
+    const links = [makeLink(a, b, 10)];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [a, b], links });
+
+    expect(a.depth).toBe(2);
+    expect(b.depth).toBe(3);
+  });
+
+  it('draws links that pins force backwards as loops', () => {
+    const a = makeNode('A', { column: 1 });
+    const b = makeNode('B', { column: 0 });
+    const links = [makeLink(a, b, 10)];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [a, b], links });
+
+    expect(b.depth).toBe(0);
+    expect(links[0].circular).toBe(true);
+  });
+
+  it('orders nodes within a column by their order hint', () => {
+    const source = makeNode('S');
+    const small = makeNode('Small', { order: 0 });
+    const large = makeNode('Large', { order: 1 });
+    const links = [makeLink(source, large, 90), makeLink(source, small, 10)];
+
+    new SankeyLayout(makeConfig()).compute({ nodes: [source, small, large], links });
+
+    expect(small.y).toBeLessThan(large.y);
+  });
+});
+
+describe('SankeyLayout value scaling', () => {
+  /** One huge entry flow and a small conversion flow out of the same page */
+  function makeSkewed() {
+    const [entry, home, signup, exit] = ['Entry', 'Home', 'Signup', 'Exit'].map(id => makeNode(id));
+    const links = [
+      makeLink(entry, home, 10000),
+      makeLink(home, exit, 9990),
+      makeLink(home, signup, 10),
+    ];
+    return { graph: { nodes: [entry, home, signup, exit], links }, home, huge: links[1], small: links[2] };
+  }
+
+  it('maps values linearly by default', () => {
+    const { graph, huge, small } = makeSkewed();
+    new SankeyLayout(makeConfig()).compute(graph);
+
+    expect(small.width / huge.width).toBeCloseTo(10 / 9990, 5);
+  });
+
+  it('compresses large values with sqrt and log scales', () => {
+    for (const [valueScale, ratio] of [['sqrt', Math.sqrt(10 / 9990)], ['log', Math.log1p(10) / Math.log1p(9990)]] as const) {
+      const { graph, huge, small } = makeSkewed();
+      new SankeyLayout(makeConfig({ valueScale })).compute(graph);
+
+      expect(small.width / huge.width).toBeCloseTo(ratio, 5);
+      expect(small.value).toBe(10);
+    }
+  });
+
+  it('enforces a minimum thickness and still fits the chart', () => {
+    const { graph, small } = makeSkewed();
+    const config = makeConfig({ minLinkWidth: 4, minNodeHeight: 6 });
+    new SankeyLayout(config).compute(graph);
+
+    expect(small.width).toBe(4);
+    expect(small.target.height).toBe(6);
+    for (const node of graph.nodes) {
+      expect(node.y).toBeGreaterThanOrEqual(config.padding.top - 1e-6);
+      expect(node.y + node.height).toBeLessThanOrEqual(config.height - config.padding.bottom + 1e-6);
+    }
+  });
+
+  it('keeps ribbons stacked without gaps inside each node', () => {
+    const { graph, home } = makeSkewed();
+    new SankeyLayout(makeConfig({ valueScale: 'log', minLinkWidth: 3 })).compute(graph);
+
+    const out = [...home.sourceLinks].sort((a, b) => a.sy - b.sy);
+    expect(out[0].sy).toBe(0);
+    expect(out[1].sy).toBeCloseTo(out[0].width, 5);
+    expect(out[1].sy + out[1].width).toBeLessThanOrEqual(home.height + 1e-6);
+    expect(home.targetLinks[0].ty).toBe(0);
+  });
+});
+
+describe('SankeyLayout large graphs and async layout', () => {
+  /** Columns of `rows` nodes, each linked to a few nodes in the next column */
+  function makeGrid(columns: number, rows: number): SankeyGraph {
+    const nodes: SankeyNode[] = [];
+    const links: SankeyLink[] = [];
+    for (let c = 0; c < columns; c++) {
+      for (let r = 0; r < rows; r++) nodes.push(makeNode(`${c}-${r}`));
+    }
+    for (let c = 0; c < columns - 1; c++) {
+      for (let r = 0; r < rows; r++) {
+        for (const step of [0, 7, 13]) {
+          const target = nodes[(c + 1) * rows + ((r * 5 + step) % rows)];
+          links.push(makeLink(nodes[c * rows + r], target, 1 + ((r + step) % 4)));
+        }
+      }
+    }
+    return { nodes, links };
+  }
+
+  function snapshot(graph: SankeyGraph) {
+    return {
+      nodes: graph.nodes.map(n => [n.depth, n.x, n.y, n.height]),
+      links: graph.links.map(l => [l.width, l.sy, l.ty]),
+    };
+  }
+
+  /** In-process stand-in for a Worker running the layout worker entry */
+  class FakeWorker {
+    onmessage: ((e: { data: unknown }) => void) | null = null;
+    onerror: ((e: { preventDefault(): void }) => void) | null = null;
+    static fail = false;
+    postMessage(request: LayoutRequest) {
+      setTimeout(() => {
+        if (FakeWorker.fail) {
+          this.onerror?.({ preventDefault() {} });
+          return;
+        }
+        const graph = fromLayoutRequest(structuredClone(request));
+        new SankeyLayout(request.config).compute(graph);
+        this.onmessage?.({ data: structuredClone(toLayoutResult(graph, request.id)) });
+      });
+    }
+    terminate() {}
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.fail = false;
+  });
+
+  it('lays out thousands of links', () => {
+    const graph = makeGrid(20, 150);
+    new SankeyLayout(makeConfig({ height: 4000 })).compute(graph);
+
+    expect(graph.links.length).toBe(19 * 150 * 3);
+    expect(graph.nodes.every(n => Number.isFinite(n.y))).toBe(true);
+    expect(graph.nodes[graph.nodes.length - 1].depth).toBe(19);
+  });
+
+  it('falls back to the synchronous layout when Workers are unavailable', async () => {
+    const expected = makeGrid(4, 10);
+    new SankeyLayout(makeConfig()).compute(expected);
+
+    const graph = makeGrid(4, 10);
+    const layout = new SankeyLayout(makeConfig({ layoutWorker: 'layout.worker.global.js' }));
+    await layout.computeAsync(graph);
+
+    expect(snapshot(graph)).toEqual(snapshot(expected));
+  });
+
+  it('matches the synchronous layout when run in a worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const withLoop = () => {
+      const graph = makeGrid(4, 10);
+      graph.links.push(makeLink(graph.nodes[15], graph.nodes[15], 2));
+      return graph;
+    };
+    const expected = withLoop();
+    new SankeyLayout(makeConfig()).compute(expected);
+
+    const graph = withLoop();
+    const layout = new SankeyLayout(makeConfig({
+      layoutWorker: 'layout.worker.global.js',
+      nodeTooltip: n => n.id,
+    }));
+    await layout.computeAsync(graph);
+
+    expect(snapshot(graph)).toEqual(snapshot(expected));
+    expect(graph.links[graph.links.length - 1].circular).toBe(true);
+    expect(graph.links[graph.links.length - 1].circularY).toBe(expected.links[expected.links.length - 1].circularY);
+  });
+
+  it('falls back to the synchronous layout when the worker fails', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    FakeWorker.fail = true;
+    const expected = makeGrid(3, 6);
+    new SankeyLayout(makeConfig()).compute(expected);
+
+    const graph = makeGrid(3, 6);
+    await new SankeyLayout(makeConfig({ layoutWorker: 'layout.worker.global.js' })).computeAsync(graph);
+
+    expect(snapshot(graph)).toEqual(snapshot(expected));
+  });
+});
+
 describe('PathGenerator', () => {
   it('generates a center-line cubic bezier path', () => {
     const a = makeNode('A');
@@ -169,4 +599,36 @@ describe('PathGenerator', () => {
     expect(d).toContain('L');     // has line segments connecting top/bottom
     expect(d).toMatch(/Z$/);      // closed path
   });
+
+  it('generates a top-to-bottom ribbon in vertical orientation', () => {
+    const a = makeNode('A');
+    const b = makeNode('B');
+    Object.assign(a, { x: 0, y: 0, width: 100, height: 20 });
+    Object.assign(b, { x: 50, y: 200, width: 50, height: 20 });
+
+    const link: SankeyLink = { source: a, target: b, value: 10, width: 20, sy: 0, ty: 0 };
+    const d = PathGenerator.linkArea(link, 'vertical');
+
+    expect(d).toMatch(/^M0,20C/); // starts at the source's bottom edge
+    expect(d).toContain('L70,200'); // spans the target's top edge
+    expect(d).toMatch(/Z$/);
+  });
+
+  it('generates a looping ribbon for circular links', () => {
+    const a = makeNode('A');
+    const b = makeNode('B');
+    Object.assign(a, { x: 0, y: 100, width: 20, height: 100 });
+    Object.assign(b, { x: 200, y: 100, width: 20, height: 100 });
+
+    const link: SankeyLink = {
+      source: b, target: a, value: 10, width: 10, sy: 0, ty: 0,
+      circular: true, circularSide: 'top', circularY: 40, circularGap: 6,
+    };
+    const d = PathGenerator.linkArea(link);
+
+    expect(d).toMatch(/^M220,100/); // leaves the source's right edge
+    expect(d).toContain('Q');       // rounded corners
+    expect(d).toContain(',40');     // reaches the loop channel
+    expect(d).toMatch(/Z$/);
+  });
 });
@@ -1,9 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SankeyRenderer } from '../src/render/renderer';
+import { CanvasRenderer } from '../src/render/canvas';
+import { renderToSVGString } from '../src/render/string';
+import { resolveTheme, THEMES } from '../src/render/theme';
 import { SankeyLayout } from '../src/layout/sankey';
+import { PathGenerator } from '../src/layout/path';
 import { TabularTransform } from '../src/transforms/tabular';
 import { DEFAULT_CONFIG } from '../src/types';
-import type { SankeyConfig, TabularData, TransformConfig } from '../src/types';
+import type { SankeyConfig, TabularData, TransformConfig, LinkColorMode } from '../src/types';
 
 const config: SankeyConfig = { ...DEFAULT_CONFIG, width: 600, height: 400 };
 const transformConfig: TransformConfig = {
@@ -125,6 +129,47 @@ describe('SankeyRenderer', () => {
     renderer.destroy();
   });
 
+  it('marks circular links and outlines them', () => {
+    const renderer = new SankeyRenderer(container, config);
+    const data = sampleData();
+    data.rows.push({ from: 'D', to: 'B', count: 3 });
+    const graph = TabularTransform.transform(data, transformConfig, config);
+    new SankeyLayout(config).compute(graph);
+    renderer.render(graph);
+
+    const loops = renderer.getLinksGroup().querySelectorAll('path[data-circular]');
+    expect(loops.length).toBe(1);
+    expect(loops[0].getAttribute('data-link-id')).toBe(JSON.stringify(['D', 'B']));
+    expect(loops[0].getAttribute('stroke-dasharray')).toBe(config.circularLinkDash);
+
+    renderer.destroy();
+  });
+
+  it('renders vertical charts with gradients and labels along the y axis', () => {
+    const vertical: SankeyConfig = {
+      ...config,
+      orientation: 'vertical',
+      padding: { top: 20, right: 20, bottom: 40, left: 20 },
+    };
+    const renderer = new SankeyRenderer(container, vertical);
+    const graph = TabularTransform.transform(sampleData(), transformConfig, vertical);
+    new SankeyLayout(vertical).compute(graph);
+    renderer.render(graph);
+
+    const defs = renderer.getSVG().querySelector('defs')!;
+    const linkGradient = defs.querySelector('linearGradient[gradientUnits="objectBoundingBox"]')!;
+    expect(linkGradient.getAttribute('x1')).toBe('0');
+    expect(linkGradient.getAttribute('x2')).toBe('0');
+    expect(Number(linkGradient.getAttribute('y2'))).toBeGreaterThan(Number(linkGradient.getAttribute('y1')));
+
+    const names = renderer.getSVG().querySelectorAll('.sankey-label-group text:first-child');
+    for (const text of Array.from(names)) {
+      expect(text.getAttribute('text-anchor')).toBe('middle');
+    }
+
+    renderer.destroy();
+  });
+
   it('resize updates SVG dimensions', () => {
     const renderer = new SankeyRenderer(container, config);
     renderer.resize(1000, 700);
@@ -141,3 +186,430 @@ describe('SankeyRenderer', () => {
     expect(container.querySelector('svg')).toBeFalsy();
   });
 });
+
+/** Records calls on a stand-in 2D context; jsdom has no canvas implementation */
+function stubCanvas(): Array<[string, unknown[]]> {
+  const calls: Array<[string, unknown[]]> = [];
+  const ctx = new Proxy({} as Record<string, unknown>, {
+    get: (target, key) => key in target ? target[key as string] : (...args: unknown[]) => {
+      calls.push([String(key), args]);
+      return key === 'createLinearGradient' ? { addColorStop: () => {} } : undefined;
+    },
+    set: (target, key, value) => { target[key as string] = value; return true; },
+  });
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(ctx as never);
+  vi.stubGlobal('Path2D', class { constructor(public d: string) {} });
+  return calls;
+}
+
+describe('link colors', () => {
+  function render(linkColor: LinkColorMode, extra: TabularData['rows'] = []) {
+    const cfg: SankeyConfig = { ...config, linkColor, colorMap: { B: '#111111', C: '#111111' } };
+    const data = sampleData();
+    data.rows.push(...extra);
+    const graph = TabularTransform.transform(data, transformConfig, cfg);
+    new SankeyLayout(cfg).compute(graph);
+    const container = document.createElement('div');
+    const renderer = new SankeyRenderer(container, cfg);
+    renderer.render(graph);
+    const svg = renderer.getSVG();
+    const fills = Object.fromEntries(Array.from(svg.querySelectorAll('.sankey-links path'),
+      p => [`${p.getAttribute('data-source')}${p.getAttribute('data-target')}`, p.getAttribute('fill')]));
+    const linkGradients = svg.querySelectorAll('linearGradient[gradientUnits="objectBoundingBox"]');
+    return { fills, linkGradients, graph };
+  }
+
+  it('shares one gradient between links with the same colors', () => {
+    const { fills, linkGradients } = render('gradient');
+    expect(fills.AB).toBe(fills.AC);
+    expect(fills.BD).toBe(fills.CD);
+    expect(fills.AB).not.toBe(fills.BD);
+    expect(linkGradients).toHaveLength(2);
+  });
+
+  it('colors ribbons by source, target, solid color or callback', () => {
+    const target = render('target');
+    expect(target.fills).toEqual({ AB: '#111111', AC: '#111111', BD: target.graph.nodes[3].color, CD: target.graph.nodes[3].color });
+    expect(target.linkGradients).toHaveLength(0);
+
+    expect(render('source').fills.AB).toBe(target.graph.nodes[0].color);
+    expect(new Set(Object.values(render('solid').fills))).toEqual(new Set(['#8a8fa3']));
+    expect(render(link => (link.value > 6 ? '#ff0000' : '#0000ff')).fills).toEqual({
+      AB: '#ff0000', AC: '#0000ff', BD: '#ff0000', CD: '#0000ff',
+    });
+  });
+
+  it('reverses the gradient of links that loop back', () => {
+    const { linkGradients } = render('gradient', [{ from: 'D', to: 'A', count: 2 }]);
+    const loop = Array.from(linkGradients).find(g => g.getAttribute('x1') === '1');
+    expect(loop).toBeTruthy();
+    expect(loop!.getAttribute('x2')).toBe('0');
+  });
+});
+
+describe('CanvasRenderer', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  function laidOut(data = sampleData(), cfg = config) {
+    const graph = TabularTransform.transform(data, transformConfig, cfg);
+    new SankeyLayout(cfg).compute(graph);
+    return graph;
+  }
+
+  it('draws links, nodes and labels on one canvas', () => {
+    const calls = stubCanvas();
+    const renderer = new CanvasRenderer(container, config);
+    renderer.render(laidOut());
+
+    expect(container.querySelectorAll('canvas')).toHaveLength(1);
+    expect(container.querySelector('path')).toBeNull();
+    // Ribbons fill a Path2D; badges fill the current path
+    expect(calls.filter(([name, args]) => name === 'fill' && args.length === 1)).toHaveLength(4);
+    expect(calls.filter(([name, args]) => name === 'fill' && args.length === 0)).toHaveLength(2);
+    expect(calls.filter(([name]) => name === 'fillRect')).toHaveLength(4);
+    expect(calls.filter(([name]) => name === 'fillText').map(([, args]) => args[0])).toContain('A');
+
+    renderer.destroy();
+    expect(container.querySelector('canvas')).toBeNull();
+  });
+
+  it('draws the same percentage badges as the SVG renderer', () => {
+    const calls = stubCanvas();
+    const renderer = new CanvasRenderer(container, config);
+    const graph = laidOut();
+    const texts = () => calls.filter(([name]) => name === 'fillText').map(([, args]) => args[0]);
+
+    renderer.render(graph);
+    const svg = renderToSVGString(graph, config);
+    const badges = Array.from(svg.matchAll(/>(\d+%)</g), m => m[1]);
+    expect(badges.length).toBeGreaterThan(0);
+    expect(texts().filter(t => String(t).endsWith('%'))).toEqual(badges);
+
+    calls.length = 0;
+    const goalReach = new Map(graph.nodes.map(n => [n.id, {
+      nodeId: n.id, label: n.label, inflow: 0, outflow: 0, dropOff: 0, dropOffRate: 0, conversionRate: 0,
+      isSource: false, isSink: false, goalRate: 0.25,
+    }]));
+    renderer.render(graph, goalReach);
+    expect(texts()).toContain('25%');
+    expect(texts()).not.toContain('80%');
+    renderer.destroy();
+  });
+
+  it('hit-tests nodes, ribbons and empty space', () => {
+    stubCanvas();
+    const renderer = new CanvasRenderer(container, config);
+    const graph = laidOut();
+    renderer.render(graph);
+
+    const a = graph.nodes.find(n => n.id === 'A')!;
+    expect(renderer.hitTest(a.x + a.width / 2, a.y + a.height / 2)).toEqual({ node: a });
+
+    for (const link of graph.links) {
+      // Middle of the ribbon: halfway along, halfway between its two ends
+      const x = (link.source.x + link.source.width + link.target.x) / 2;
+      const y = (link.source.y + link.sy + link.target.y + link.ty) / 2 + link.width / 2;
+      expect(renderer.hitTest(x, y)).toEqual({ link });
+    }
+    expect(renderer.hitTest(config.width - 1, 1)).toBeNull();
+
+    renderer.destroy();
+  });
+
+  it('draws and hit-tests thin nodes at the SVG minimum height', () => {
+    const calls = stubCanvas();
+    const renderer = new CanvasRenderer(container, config);
+    const graph = laidOut();
+    const a = graph.nodes.find(n => n.id === 'A')!;
+    a.height = 0.5;
+    renderer.render(graph);
+
+    const rect = calls.find(([name, args]) => name === 'fillRect' && args[0] === a.x && args[1] === a.y)!;
+    expect(rect[1][3]).toBe(2);
+    expect(renderToSVGString(graph, config)).toContain(`data-node-id="A" x="${a.x}" y="${a.y}" width="${a.width}" height="2"`);
+    expect(renderer.hitTest(a.x + a.width / 2, a.y + 1.5)).toEqual({ node: a });
+    renderer.destroy();
+  });
+
+  it('hit-tests the channel of circular links, also when vertical', () => {
+    stubCanvas();
+    for (const orientation of ['horizontal', 'vertical'] as const) {
+      const cfg: SankeyConfig = { ...config, orientation };
+      const data = sampleData();
+      data.rows.push({ from: 'D', to: 'B', count: 3 });
+      const graph = laidOut(data, cfg);
+      const renderer = new CanvasRenderer(container, cfg);
+      renderer.render(graph);
+
+      const loop = graph.links.find(l => l.circular)!;
+      const flow = orientation === 'vertical'
+        ? (loop.source.y + loop.target.y) / 2
+        : (loop.source.x + loop.target.x) / 2;
+      const cross = loop.circularSide === 'bottom' ? loop.circularY! - loop.width / 2 : loop.circularY! + loop.width / 2;
+      const [x, y] = orientation === 'vertical' ? [cross, flow] : [flow, cross];
+      expect(renderer.hitTest(x, y)).toEqual({ link: loop });
+      renderer.destroy();
+    }
+  });
+});
+
+describe('renderToSVGString', () => {
+  function layout() {
+    const graph = TabularTransform.transform(sampleData(), transformConfig, config);
+    new SankeyLayout(config).compute(graph);
+    return graph;
+  }
+
+  it('renders a self-contained SVG document', () => {
+    expect(renderToSVGString(layout(), config)).toMatchSnapshot();
+  });
+
+  it('draws the same paths, labels and badges as the DOM renderer', () => {
+    const graph = layout();
+    const container = document.createElement('div');
+    const renderer = new SankeyRenderer(container, config);
+    renderer.render(graph);
+    const parsed = new DOMParser().parseFromString(renderToSVGString(graph, config), 'image/svg+xml');
+
+    const attrs = (root: ParentNode, selector: string, name: string) =>
+      Array.from(root.querySelectorAll(selector)).map(el => el.getAttribute(name));
+    const texts = (root: ParentNode) =>
+      Array.from(root.querySelectorAll('.sankey-labels text')).map(el => el.textContent);
+
+    const svg = renderer.getSVG();
+    expect(attrs(parsed, '.sankey-links path', 'd')).toEqual(attrs(svg, '.sankey-links path', 'd'));
+    expect(attrs(parsed, '.sankey-links path', 'fill')).toEqual(attrs(svg, '.sankey-links path', 'fill'));
+    expect(attrs(parsed, '.sankey-nodes rect', 'height')).toEqual(attrs(svg, '.sankey-nodes rect', 'height'));
+    expect(texts(parsed)).toEqual(texts(svg));
+    expect(texts(parsed)).toContain('80%'); // B passes 8 of its 10 on
+    expect(parsed.querySelectorAll('defs linearGradient').length).toBe(svg.querySelectorAll('defs linearGradient').length);
+    expect(parsed.querySelector('filter#sankey-node-shadow')).toBeTruthy();
+
+    renderer.destroy();
+  });
+
+  it('prefixes definition ids and escapes label text', () => {
+    const graph = layout();
+    graph.nodes[0].label = 'A & <B>';
+    const out = renderToSVGString(graph, config, { idPrefix: 'report' });
+
+    expect(out).toContain('id="report-node-shadow"');
+    expect(out).toContain('url(#report-grad-0)');
+    expect(out).not.toContain('sankey-grad');
+    expect(out).toContain('A &amp; &lt;B&gt;');
+  });
+});
+
+describe('node colors', () => {
+  it('shades hex node colors and keeps other literal colors flat', () => {
+    const rows = [
+      { from: 'A', to: 'B', count: 10, fromColor: 'rgb(10, 20, 30)', toColor: '#abc' },
+      { from: 'B', to: 'C', count: 5, fromColor: '#abc', toColor: 'hsla(120, 50%, 50%, 0.5)' },
+    ];
+    const cfg = { ...transformConfig, sourceColorField: 'fromColor', targetColorField: 'toColor' };
+    const graph = TabularTransform.transform({ rows }, cfg, config);
+    new SankeyLayout(config).compute(graph);
+    const renderer = new SankeyRenderer(document.createElement('div'), config);
+    renderer.render(graph);
+    const svg = renderer.getSVG();
+    const stops = (id: string) => {
+      const fill = svg.querySelector(`rect[data-node-id="${id}"]`)!.getAttribute('fill')!;
+      const gradient = svg.querySelector(`[id="${fill.slice(5, -1)}"]`)!;
+      return Array.from(gradient.querySelectorAll('stop'), s => s.getAttribute('stop-color'));
+    };
+
+    expect(stops('A')).toEqual(['rgb(10, 20, 30)', 'rgb(10, 20, 30)']);
+    expect(stops('B')).toEqual(['#b9cadb', '#9bacbd']);
+    expect(stops('C')).toEqual(['hsla(120, 50%, 50%, 0.5)', 'hsla(120, 50%, 50%, 0.5)']);
+    renderer.destroy();
+  });
+});
+
+describe('themes', () => {
+  it('resolves built-in themes and overrides on top of a base', () => {
+    expect(resolveTheme('light')).toBe(THEMES.light);
+    expect(resolveTheme(undefined)).toBe(THEMES.dark);
+    const custom = resolveTheme({ base: 'light', labelColor: '#123456', valueColor: undefined });
+    expect(custom.labelColor).toBe('#123456');
+    expect(custom.valueColor).toBe(THEMES.light.valueColor);
+    expect(resolveTheme({ fontFamily: 'Georgia' }).tooltipBackground).toBe(THEMES.dark.tooltipBackground);
+  });
+
+  it('draws labels, badges and shadows in theme colors', () => {
+    const graph = TabularTransform.transform(sampleData(), transformConfig, config);
+    new SankeyLayout(config).compute(graph);
+    const svg = renderToSVGString(graph, { ...config, theme: { base: 'high-contrast', fontFamily: 'Georgia' } });
+
+    expect(svg).toContain('fill="#ffffff" font-size="12" font-weight="600" font-family="Georgia"');
+    expect(svg).toContain('stroke="#000000"');
+    expect(svg).toContain('flood-color="transparent"');
+    expect(svg).not.toContain('#d4d4e0');
+  });
+});
+
+describe('transitions', () => {
+  let frames: FrameRequestCallback[];
+
+  beforeEach(() => {
+    frames = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+    vi.stubGlobal('cancelAnimationFrame', () => { frames = []; });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** Run one frame at `ms` after now, or every pending frame when `ms` is omitted */
+  function step(ms?: number) {
+    do {
+      const pending = frames;
+      frames = [];
+      for (const cb of pending) cb(performance.now() + (ms ?? 60_000));
+    } while (ms === undefined && frames.length);
+  }
+
+  function laidOut(rows: TabularData['rows']) {
+    const graph = TabularTransform.transform({ rows }, transformConfig, config);
+    new SankeyLayout(config).compute(graph);
+    return graph;
+  }
+
+  function setup() {
+    const renderer = new SankeyRenderer(document.createElement('div'), config);
+    renderer.render(laidOut(sampleData().rows));
+    step();
+    const svg = renderer.getSVG();
+    const link = (id: string) => svg.querySelector<SVGPathElement>(`path[data-link-id='${id}']`);
+    const node = (id: string) => svg.querySelector<SVGRectElement>(`rect[data-node-id="${id}"]`);
+    return { renderer, svg, link, node };
+  }
+
+  it('tweens matching nodes and links to their new geometry', () => {
+    const { renderer, svg, link, node } = setup();
+    const ab = link('["A","B"]')!;
+    const b = node('B')!;
+    const before = ab.getAttribute('d')!;
+
+    const rows = sampleData().rows;
+    rows[0].count = 30;
+    const graph = laidOut(rows);
+    renderer.render(graph);
+    const target = PathGenerator.linkArea(graph.links[0], config.orientation);
+
+    // Same elements, still drawn where they were until the first frame
+    expect(link('["A","B"]')).toBe(ab);
+    expect(node('B')).toBe(b);
+    expect(ab.getAttribute('d')).toBe(before);
+
+    step(0);
+    step(config.transitionDuration / 2);
+    const midway = ab.getAttribute('d');
+    expect(midway).not.toBe(before);
+    expect(midway).not.toBe(target);
+
+    step();
+    expect(ab.getAttribute('d')).toBe(target);
+    expect(b.getAttribute('height')).toBe(String(graph.nodes.find(n => n.id === 'B')!.height));
+    expect(svg.querySelector('style')).toBeNull();
+    renderer.destroy();
+  });
+
+  it('fades entering elements in and exiting ones out', () => {
+    const { renderer, svg, link, node } = setup();
+    const c = node('C')!;
+    const labels = svg.querySelector('.sankey-labels')!;
+
+    renderer.render(laidOut([
+      { from: 'A', to: 'B', count: 10 },
+      { from: 'B', to: 'D', count: 8 },
+      { from: 'D', to: 'E', count: 6 },
+    ]));
+    const e = node('E')!;
+    expect(e.style.opacity).toBe('0');
+    expect(c.style.opacity).toBe('0');
+    expect(c.style.pointerEvents).toBe('none');
+    expect(link('["A","C"]')).toBeTruthy();
+
+    step(0);
+    expect(e.style.opacity).toBe('1');
+
+    step();
+    expect(c.isConnected).toBe(false);
+    expect(link('["A","C"]')).toBeNull();
+    expect(labels.children).toHaveLength(4);
+    // Gradients only the removed ribbons used are dropped with them
+    const fills = new Set(Array.from(svg.querySelectorAll('.sankey-links path, .sankey-nodes rect'), el => el.getAttribute('fill')));
+    expect(svg.querySelectorAll('linearGradient')).toHaveLength(fills.size);
+    renderer.destroy();
+  });
+
+  it('drops gradients as soon as no element uses them', () => {
+    const cfg: SankeyConfig = { ...config };
+    const renderer = new SankeyRenderer(document.createElement('div'), cfg);
+    const graph = laidOut(sampleData().rows);
+    renderer.render(graph);
+    const svg = renderer.getSVG();
+    const gradients = () => svg.querySelectorAll('linearGradient').length;
+    const fills = () => new Set(Array.from(svg.querySelectorAll('.sankey-links path, .sankey-nodes rect'),
+      el => el.getAttribute('fill'))).size;
+
+    // Same keys, new colors: nothing leaves, yet the old gradients go
+    for (const color of ['#112233', '#445566', '#778899']) {
+      graph.nodes[0].color = color;
+      renderer.render(graph);
+      expect(gradients()).toBe(fills());
+    }
+    cfg.linkColor = 'solid';
+    renderer.render(graph);
+    expect(svg.querySelectorAll('linearGradient[gradientUnits]')).toHaveLength(0);
+    renderer.destroy();
+  });
+
+  it('moves a dragged node with its links and label only', () => {
+    const { renderer, svg, link, node } = setup();
+    const graph = laidOut(sampleData().rows);
+    renderer.render(graph, undefined, false);
+    const defs = Array.from(svg.querySelectorAll('linearGradient'));
+    const untouched = link('["C","D"]')!.getAttribute('d');
+
+    const b = graph.nodes.find(n => n.id === 'B')!;
+    b.y += 20;
+    renderer.moveNode(b);
+
+    expect(node('B')!.getAttribute('y')).toBe(String(b.y));
+    expect(link('["A","B"]')!.getAttribute('d')).toBe(PathGenerator.linkArea(b.targetLinks[0], config.orientation));
+    expect(link('["C","D"]')!.getAttribute('d')).toBe(untouched);
+    expect(svg.querySelector('text[data-node-id="B"]')!.getAttribute('y')).toBe(String(b.y + b.height / 2 - 4));
+    expect(Array.from(svg.querySelectorAll('linearGradient'))).toEqual(defs);
+    renderer.destroy();
+  });
+
+  it('updates at once without animate or a transition duration', () => {
+    const { renderer, link, node } = setup();
+    const graph = laidOut(sampleData().rows.slice(0, 3));
+    renderer.render(graph, undefined, false);
+
+    expect(node('D')!.getAttribute('y')).toBe(String(graph.nodes.find(n => n.id === 'D')!.y));
+    expect(link('["C","D"]')).toBeNull();
+    expect(frames).toHaveLength(0);
+    renderer.destroy();
+
+    const instant = new SankeyRenderer(document.createElement('div'), { ...config, transitionDuration: 0 });
+    instant.render(laidOut(sampleData().rows));
+    instant.render(graph);
+    expect(instant.getSVG().querySelectorAll('.sankey-nodes rect')).toHaveLength(4);
+    expect(instant.getSVG().querySelector(`path[data-link-id='["C","D"]']`)).toBeNull();
+    instant.destroy();
+  });
+});
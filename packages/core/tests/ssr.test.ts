@@ -0,0 +1,27 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONFIG, SankeyLayout, TabularTransform, renderToSVGString } from '../src/index';
+import type { SankeyConfig } from '../src/index';
+
+const config: SankeyConfig = { ...DEFAULT_CONFIG, width: 600, height: 400 };
+
+describe('renderToSVGString without a DOM', () => {
+  it('renders a laid-out graph from the package entry point', () => {
+    expect(typeof document).toBe('undefined');
+
+    const graph = TabularTransform.transform({
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 60 },
+        { from: 'Home', to: 'Docs', count: 40 },
+        { from: 'Pricing', to: 'Signup', count: 25 },
+      ],
+    }, { sourceField: 'from', targetField: 'to', valueField: 'count' }, config);
+    new SankeyLayout(config).compute(graph);
+    const svg = renderToSVGString(graph, config);
+
+    expect(svg).toMatch(/^<svg [^>]*xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+    expect(svg.match(/<rect data-node-id="/g)).toHaveLength(4);
+    expect(svg.match(/<path /g)!.length).toBeGreaterThanOrEqual(3);
+    expect(svg).toContain('>Signup<');
+  });
+});
@@ -1,8 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import { TabularTransform } from '../src/transforms/tabular';
 import { JourneyAnalyzer } from '../src/transforms/journey';
+import { OtherBucketer } from '../src/transforms/bucket';
+import { EventLogTransform } from '../src/transforms/eventlog';
+import { PathTransform } from '../src/transforms/path';
+import { ColorMapper } from '../src/transforms/color';
+import { DiagnosticsAnalyzer } from '../src/transforms/diagnostics';
+import { GraphFilter } from '../src/transforms/filter';
+import { ComparisonTransform } from '../src/transforms/comparison';
+import { GraphExporter } from '../src/transforms/export';
+import { SankeyLayout } from '../src/layout/sankey';
 import { DEFAULT_CONFIG } from '../src/types';
-import type { TabularData, TransformConfig, SankeyConfig } from '../src/types';
+import type { TabularData, TransformConfig, EventLogConfig, SankeyConfig, SankeyNode, RowIssues } from '../src/types';
 
 const config: SankeyConfig = { ...DEFAULT_CONFIG };
 const transformConfig: TransformConfig = {
@@ -102,6 +111,210 @@ describe('TabularTransform', () => {
     const paletteLen = config.colorPalette.length;
     expect(graph.nodes[paletteLen].color).toBe(config.colorPalette[0]); // wraps
   });
+
+  it('colors nodes from color fields: literal colors or categories', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 5, fromColor: '#ff0000', toColor: 'Marketing' },
+        { from: 'Home', to: 'Blog', count: 3, fromColor: '#00ff00', toColor: 'Marketing' },
+        { from: 'Pricing', to: 'Signup', count: 2, fromColor: 'Marketing', toColor: 'rgb(1, 2, 3)' },
+      ],
+    };
+    const graph = TabularTransform.transform(data, {
+      ...transformConfig,
+      sourceColorField: 'fromColor',
+      targetColorField: 'toColor',
+    }, { ...config, colorMap: { Marketing: '#123456' } });
+    const color = (id: string) => graph.nodes.find(n => n.id === id)!.color;
+
+    expect(color('Home')).toBe('#ff0000');
+    expect(color('Pricing')).toBe('#123456');
+    expect(color('Blog')).toBe('#123456');
+    expect(color('Signup')).toBe('rgb(1, 2, 3)');
+  });
+
+  it('keeps hash-assigned colors stable when filters drop nodes', () => {
+    const hashed = { ...config, colorAssignment: 'hash' as const };
+    const full = TabularTransform.transform({
+      rows: [
+        { from: 'A', to: 'B', count: 1 },
+        { from: 'C', to: 'D', count: 1 },
+      ],
+    }, transformConfig, hashed);
+    const filtered = TabularTransform.transform({ rows: [{ from: 'C', to: 'D', count: 1 }] }, transformConfig, hashed);
+
+    expect(filtered.nodes.map(n => n.color)).toEqual(full.nodes.slice(2).map(n => n.color));
+    expect(full.nodes[0].color).toBe(config.colorPalette[ColorMapper.hash('A') % config.colorPalette.length]);
+  });
+
+  it('keeps ids containing arrows intact', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'A→B', to: 'C', count: 4 },
+        { from: 'A', to: 'B→C', count: 6 },
+      ],
+    };
+    const graph = TabularTransform.transform(data, transformConfig, config);
+
+    expect(graph.links.map(l => [l.source.id, l.target.id, l.value])).toEqual([
+      ['A→B', 'C', 4],
+      ['A', 'B→C', 6],
+    ]);
+  });
+
+  it('separates node ids from display labels', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'p-1', fromName: 'Home', to: 'p-2', toName: 'Pricing', count: 5 },
+        { from: 'p-3', fromName: 'Home', to: 'p-2', toName: 'Precios', count: 2 },
+      ],
+    };
+    const graph = TabularTransform.transform(data, {
+      ...transformConfig,
+      sourceLabelField: 'fromName',
+      targetLabelField: 'toName',
+      labels: { 'p-3': 'Home (legacy)' },
+    }, config);
+
+    expect(graph.nodes.map(n => [n.id, n.label])).toEqual([
+      ['p-1', 'Home'],
+      ['p-2', 'Pricing'],
+      ['p-3', 'Home (legacy)'],
+    ]);
+  });
+
+  it('reads column and order hints, mapping stage names to columns', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'Ads', to: 'Trial', count: 10, fromStage: 'Acquisition', toStage: 'Activation', toRank: 2 },
+        { from: 'Trial', to: 'Paid', count: 4, fromStage: 'Activation', toStage: 'Revenue', toRank: 1 },
+        { from: 'Ads', to: 'Paid', count: 1, fromStage: 'Acquisition', toStage: '2' },
+      ],
+    };
+
+    const graph = TabularTransform.transform(data, {
+      ...transformConfig,
+      sourceColumnField: 'fromStage',
+      targetColumnField: 'toStage',
+      targetOrderField: 'toRank',
+      stages: ['Acquisition', 'Activation', 'Revenue'],
+    }, config);
+    const byId = Object.fromEntries(graph.nodes.map(n => [n.id, n]));
+
+    expect(byId.Ads.column).toBe(0);
+    expect(byId.Trial.column).toBe(1);
+    expect(byId.Paid.column).toBe(2);
+    expect(byId.Trial.order).toBe(2);
+    expect(byId.Paid.order).toBe(1);
+    expect(byId.Ads.order).toBeUndefined();
+  });
+
+  it('aggregates values per pair and counts rows without a value field', () => {
+    // One row per session
+    const data: TabularData = {
+      rows: [
+        { from: 'Home', to: 'Pricing', user: 'u1', secs: 30 },
+        { from: 'Home', to: 'Pricing', user: 'u1', secs: 10 },
+        { from: 'Home', to: 'Pricing', user: 'u2', secs: 20 },
+        { from: 'Home', to: 'Blog', user: '', secs: 5 },
+      ],
+    };
+    const values = (aggregate?: TransformConfig['aggregate'], valueField?: string, issues?: RowIssues) =>
+      TabularTransform.transform(data, { sourceField: 'from', targetField: 'to', valueField, aggregate, distinctField: 'user' }, config, issues)
+        .links.map(l => l.value);
+
+    expect(values()).toEqual([3, 1]);
+    expect(values('sum', 'secs')).toEqual([60, 5]);
+    expect(values('count', 'secs')).toEqual([3, 1]);
+    expect(values('mean', 'secs')).toEqual([20, 5]);
+    expect(values('min', 'secs')).toEqual([10, 5]);
+    expect(values('max', 'secs')).toEqual([30, 5]);
+
+    const issues: RowIssues = { skippedRows: [], coercedValues: [] };
+    expect(values('count-distinct', undefined, issues)).toEqual([2]);
+    expect(issues.skippedRows).toEqual([{ index: 3, reason: 'missing-distinct-id' }]);
+  });
+
+  it('rejects count-distinct without a distinct field instead of skipping every row', () => {
+    const data: TabularData = { rows: [{ from: 'Home', to: 'Pricing', user: 'u1' }] };
+    expect(() => TabularTransform.transform(data, { sourceField: 'from', targetField: 'to', aggregate: 'count-distinct' }, config))
+      .toThrow(/distinctField/);
+  });
+});
+
+describe('TabularTransform measures', () => {
+  const data: TabularData = {
+    rows: [
+      { from: 'Home', to: 'Pricing', sessions: 10, revenue: 200 },
+      { from: 'Home', to: 'Pricing', sessions: 5, revenue: '' },
+      { from: 'Home', to: 'Blog', sessions: 20, revenue: 0 },
+    ],
+  };
+
+  it('keeps every measure on links and sizes them by the first', () => {
+    const graph = TabularTransform.transform(data, {
+      sourceField: 'from', targetField: 'to', valueFields: ['sessions', 'revenue'],
+    }, config);
+
+    expect(graph.links.map(l => l.value)).toEqual([15, 20]);
+    expect(graph.links.map(l => l.values)).toEqual([
+      { sessions: 15, revenue: 200 },
+      { sessions: 20, revenue: 0 },
+    ]);
+  });
+
+  it('puts valueField first and applies the aggregate to each measure', () => {
+    const graph = TabularTransform.transform(data, {
+      sourceField: 'from', targetField: 'to', valueField: 'revenue', valueFields: ['sessions'], aggregate: 'mean',
+    }, config);
+
+    expect(TabularTransform.measureFields({ sourceField: 'a', targetField: 'b', valueField: 'revenue', valueFields: ['sessions', 'revenue'] }))
+      .toEqual(['revenue', 'sessions']);
+    // Rows without a positive revenue can't be sized by it
+    expect(graph.links.map(l => l.values)).toEqual([{ revenue: 200, sessions: 10 }]);
+  });
+});
+
+describe('TabularTransform link color field', () => {
+  const data: TabularData = {
+    rows: [
+      { from: 'Home', to: 'Pricing', count: 10, segment: 'Paid' },
+      { from: 'Home', to: 'Pricing', count: 5, segment: 'Organic' },
+      { from: 'Home', to: 'Pricing', count: 2, segment: 'Paid' },
+      { from: 'Home', to: 'Blog', count: 4, segment: '#123456' },
+      { from: 'Home', to: 'Blog', count: 1, segment: '' },
+    ],
+  };
+
+  it('splits pairs into one colored link per field value', () => {
+    const cfg: SankeyConfig = { ...config, linkColor: { field: 'segment' }, colorMap: { Organic: '#00aa00' } };
+    const graph = TabularTransform.transform(data, transformConfig, cfg);
+
+    expect(graph.links.map(l => [l.target.id, l.category, l.value])).toEqual([
+      ['Pricing', 'Paid', 12],
+      ['Pricing', 'Organic', 5],
+      ['Blog', '#123456', 4],
+      ['Blog', undefined, 1],
+    ]);
+    expect(graph.links[0].id).toBe(JSON.stringify(['Home', 'Pricing', 'Paid']));
+    expect(graph.links[1].color).toBe('#00aa00');
+    expect(graph.links[2].color).toBe('#123456');
+    // Categories get palette colors in their own order, not after the nodes
+    expect(graph.links[0].color).toBe(config.colorPalette[0]);
+    expect(graph.links[3].id).toBeUndefined();
+
+    new SankeyLayout(cfg).compute(graph);
+    const pricing = graph.nodes.find(n => n.id === 'Pricing')!;
+    expect(pricing.targetLinks).toHaveLength(2);
+    expect(pricing.value).toBe(17);
+  });
+
+  it('matches compared flows per category', () => {
+    const cfg: SankeyConfig = { ...config, linkColor: { field: 'segment' } };
+    const baseline: TabularData = { rows: [{ from: 'Home', to: 'Pricing', count: 6, segment: 'Paid' }] };
+    const graph = ComparisonTransform.transform(data, baseline, transformConfig, cfg);
+    expect(graph.links.map(l => l.comparison!.baseline)).toEqual([6, 0, 0, 0]);
+  });
 });
 
 describe('JourneyAnalyzer', () => {
@@ -160,4 +373,506 @@ describe('JourneyAnalyzer', () => {
     expect(about.isSink).toBe(true);
     expect(about.inflow).toBe(300);
   });
+
+  it('computes goal reach and first/last-touch attribution', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 100 },
+        { from: 'Home', to: 'Blog', count: 50 },
+        { from: 'Ad', to: 'Pricing', count: 50 },
+        { from: 'Pricing', to: 'Purchase', count: 60 },
+        { from: 'Pricing', to: 'Exit', count: 40 },
+        { from: 'Blog', to: 'Purchase', count: 10 },
+      ],
+    };
+    const graph = TabularTransform.transform(data, transformConfig, config);
+    const metrics = new Map(JourneyAnalyzer.analyze(graph, ['Purchase']).map(m => [m.nodeId, m]));
+
+    expect(metrics.get('Pricing')!.goalRate).toBeCloseTo(0.4);
+    expect(metrics.get('Pricing')!.goalValue).toBeCloseTo(60);
+    expect(metrics.get('Blog')!.goalRate).toBeCloseTo(0.2);
+    expect(metrics.get('Home')!.goalRate).toBeCloseTo(1 / 3);
+    expect(metrics.get('Purchase')!.goalRate).toBe(1);
+    expect(metrics.get('Exit')!.goalRate).toBe(0);
+
+    // Both attributions share out all 70 goal journeys
+    expect([metrics.get('Home')!.firstTouch, metrics.get('Ad')!.firstTouch]).toEqual([50, 20]);
+    expect(metrics.get('Pricing')!.firstTouch).toBe(0);
+    expect([metrics.get('Pricing')!.lastTouch, metrics.get('Blog')!.lastTouch]).toEqual([60, 10]);
+
+    expect(JourneyAnalyzer.analyze(graph)[0].goalRate).toBeUndefined();
+  });
+
+  it('solves goal reach on deep chains and through loops', () => {
+    // Nodes listed in flow order, as event logs produce them
+    const rows: TabularData['rows'] = [];
+    for (let i = 0; i < 300; i++) rows.push({ from: `S${i}`, to: `S${i + 1}`, count: 10 });
+    const chain = TabularTransform.transform({ rows }, transformConfig, config);
+    const deep = JourneyAnalyzer.analyze(chain, ['S300']);
+    expect(deep[0].nodeId).toBe('S0');
+    expect(deep[0].goalRate).toBe(1);
+
+    // Cart → Product → Cart: half of Cart's flow returns, half buys
+    const looped = TabularTransform.transform({
+      rows: [
+        { from: 'Home', to: 'Cart', count: 10 },
+        { from: 'Cart', to: 'Product', count: 10 },
+        { from: 'Product', to: 'Cart', count: 10 },
+        { from: 'Cart', to: 'Paid', count: 10 },
+      ],
+    }, transformConfig, config);
+    const metrics = new Map(JourneyAnalyzer.analyze(looped, ['Paid']).map(m => [m.nodeId, m]));
+    expect(metrics.get('Home')!.goalRate).toBeCloseTo(1);
+    expect(metrics.get('Product')!.goalRate).toBeCloseTo(1);
+  });
+
+  it('ranks full paths by flow-proportional volume', () => {
+    // Pricing keeps 80 of its 100 visitors; Cart splits them 60/20
+    const data: TabularData = {
+      rows: [
+        { from: 'Home', to: 'Pricing', count: 100 },
+        { from: 'Home', to: 'Blog', count: 50 },
+        { from: 'Ad', to: 'Pricing', count: 50 },
+        { from: 'Pricing', to: 'Cart', count: 120 },
+        { from: 'Cart', to: 'Paid', count: 90 },
+        { from: 'Cart', to: 'Exit', count: 30 },
+      ],
+    };
+    const graph = TabularTransform.transform(data, transformConfig, config);
+    const paths = JourneyAnalyzer.topPaths(graph, 3);
+
+    expect(paths.map(p => p.labels.join(' > '))).toEqual([
+      'Home > Pricing > Cart > Paid',
+      'Home > Blog',
+      'Ad > Pricing > Cart > Paid',
+    ]);
+    expect(paths[0].value).toBeCloseTo(60);
+    expect(paths[0].share).toBeCloseTo(0.3);
+    expect(paths[0].links.map(l => l.target.id)).toEqual(['Pricing', 'Cart', 'Paid']);
+
+    // Every entry ends somewhere: the shares of all paths add up to 1
+    const all = JourneyAnalyzer.topPaths(graph, 100);
+    expect(all.map(p => p.labels.join(' > '))).toContain('Home > Pricing');
+    expect(all.reduce((s, p) => s + p.share, 0)).toBeCloseTo(1);
+  });
+
+  it('ends a path instead of following a loop back', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'Start', to: 'A', count: 10 },
+        { from: 'A', to: 'B', count: 10 },
+        { from: 'B', to: 'A', count: 4 },
+        { from: 'B', to: 'End', count: 6 },
+      ],
+    };
+    const graph = TabularTransform.transform(data, transformConfig, config);
+
+    const paths = JourneyAnalyzer.topPaths(graph);
+
+    expect(paths[0].nodeIds).toEqual(['Start', 'A', 'B', 'End']);
+    for (const path of paths) expect(new Set(path.nodeIds).size).toBe(path.nodeIds.length);
+    expect(paths.reduce((s, p) => s + p.share, 0)).toBeCloseTo(1);
+  });
+});
+
+describe('OtherBucketer', () => {
+  // Home fans out to three big pages and a long tail, which all lead to Exit
+  const data: TabularData = {
+    rows: [
+      { from: 'Home', to: 'Pricing', count: 400 },
+      { from: 'Home', to: 'Docs', count: 300 },
+      { from: 'Home', to: 'Blog', count: 200 },
+      { from: 'Home', to: 'Careers', count: 6 },
+      { from: 'Home', to: 'Legal', count: 3 },
+      { from: 'Home', to: 'Press', count: 1 },
+      { from: 'Pricing', to: 'Exit', count: 400 },
+      { from: 'Careers', to: 'Exit', count: 6 },
+      { from: 'Legal', to: 'Exit', count: 3 },
+    ],
+  };
+
+  function bucketed(options: Parameters<typeof OtherBucketer.bucket>[1]) {
+    const graph = TabularTransform.transform(data, transformConfig, config);
+    new SankeyLayout({ ...config, nodeAlign: 'left' }).assignColumns(graph);
+    return { graph, result: OtherBucketer.bucket(graph, options) };
+  }
+
+  it('merges nodes below an absolute value into one node per column', () => {
+    const { result } = bucketed({ minValue: 10 });
+    const other = result.nodes.find(n => n.meta?.isOther)!;
+
+    expect(result.nodes.map(n => n.label)).toEqual(['Home', 'Pricing', 'Docs', 'Blog', 'Other', 'Exit']);
+    expect(other.column).toBe(1);
+    expect((other.meta!.members as SankeyNode[]).map(n => n.id)).toEqual(['Careers', 'Legal', 'Press']);
+  });
+
+  it('merges the links of merged nodes and keeps the originals', () => {
+    const { result } = bucketed({ minValue: 10 });
+    const other = result.nodes.find(n => n.meta?.isOther)!;
+
+    expect(other.targetLinks).toHaveLength(1);
+    expect(other.targetLinks[0].value).toBe(10);
+    expect(other.sourceLinks).toHaveLength(1);
+    expect(other.sourceLinks[0].value).toBe(9);
+    expect((other.sourceLinks[0].meta!.members as unknown[])).toHaveLength(2);
+  });
+
+  it('supports share-of-column and top-N thresholds', () => {
+    expect(bucketed({ minShare: 0.05 }).result.nodes.find(n => n.meta?.isOther)!.meta!.members)
+      .toHaveLength(3);
+    const topTwo = bucketed({ topN: 2, label: 'Long tail' }).result;
+    expect(topTwo.nodes.filter(n => n.depth === 1).map(n => n.label)).toEqual(['Pricing', 'Docs', 'Long tail']);
+  });
+
+  it('leaves the input graph untouched and skips single-node buckets', () => {
+    const { graph, result } = bucketed({ minValue: 2 });
+
+    expect(result.nodes.some(n => n.meta?.isOther)).toBe(false);
+    expect(result.nodes).toHaveLength(graph.nodes.length);
+    expect(graph.nodes.find(n => n.id === 'Home')!.sourceLinks).toHaveLength(6);
+  });
+});
+
+describe('EventLogTransform', () => {
+  const eventConfig: EventLogConfig = {
+    sessionField: 'session',
+    timestampField: 'ts',
+    eventField: 'page',
+  };
+  // Rows deliberately out of time order
+  const data: TabularData = {
+    rows: [
+      { session: 's1', ts: '2024-05-01T10:02:00Z', page: 'Pricing' },
+      { session: 's1', ts: '2024-05-01T10:00:00Z', page: 'Home' },
+      { session: 's1', ts: '2024-05-01T10:05:00Z', page: 'Signup' },
+      { session: 's2', ts: 1714557600000, page: 'Home' },
+      { session: 's2', ts: 1714557660000, page: 'Home' },
+      { session: 's2', ts: 1714557720000, page: 'Pricing' },
+      { session: 's3', ts: new Date('2024-05-01T11:00:00Z'), page: 'Home' },
+      { session: 's3', ts: 'not a date', page: 'Blog' },
+      { session: '', ts: 1714557600000, page: 'Home' },
+    ],
+  };
+  const link = (graph: ReturnType<typeof EventLogTransform.transform>, from: string, to: string) =>
+    graph.links.find(l => l.source.id === from && l.target.id === to)?.value;
+
+  it('builds step-indexed nodes with session counts per transition', () => {
+    const graph = EventLogTransform.transform(data, eventConfig, config);
+
+    expect(graph.nodes.map(n => n.id)).toEqual(['[1,"Home"]', '[2,"Pricing"]', '[3,"Signup"]']);
+    expect(link(graph, '[1,"Home"]', '[2,"Pricing"]')).toBe(2);
+    expect(link(graph, '[2,"Pricing"]', '[3,"Signup"]')).toBe(1);
+    expect(graph.nodes.map(n => n.column)).toEqual([0, 1, 2]);
+  });
+
+  it('can keep repeated consecutive events as separate steps', () => {
+    const graph = EventLogTransform.transform(data, { ...eventConfig, collapseRepeats: false }, config);
+
+    expect(link(graph, '[1,"Home"]', '[2,"Home"]')).toBe(1);
+    expect(link(graph, '[2,"Home"]', '[3,"Pricing"]')).toBe(1);
+  });
+
+  it('adds an exit step and limits the number of steps', () => {
+    const graph = EventLogTransform.transform(data, { ...eventConfig, exitNode: true, maxSteps: 2 }, config);
+
+    // s1 is cut short at two steps, s2 exits after Pricing, s3 after Home
+    expect(link(graph, '[2,"Pricing"]', '[3,null]')).toBe(1);
+    expect(link(graph, '[1,"Home"]', '[2,null]')).toBe(1);
+    expect(graph.nodes.find(n => n.id === '[2,null]')!.label).toBe('Step 2: Exit');
+    expect(graph.nodes.some(n => n.id === '[3,"Signup"]')).toBe(false);
+  });
+
+  it('keeps an event named like the exit label apart from the exit step', () => {
+    const graph = EventLogTransform.transform({
+      rows: [
+        { session: 's1', ts: 1, page: 'Home' },
+        { session: 's1', ts: 2, page: 'Exit' },
+        { session: 's2', ts: 1, page: 'Home' },
+      ],
+    }, { ...eventConfig, exitNode: true }, config);
+
+    expect(link(graph, '[1,"Home"]', '[2,"Exit"]')).toBe(1);
+    expect(link(graph, '[1,"Home"]', '[2,null]')).toBe(1);
+    expect(link(graph, '[2,"Exit"]', '[3,null]')).toBe(1);
+    expect(graph.nodes.filter(n => n.label === 'Step 2: Exit')).toHaveLength(2);
+  });
+
+  it('colors nodes by event name', () => {
+    const graph = EventLogTransform.transform(data, { ...eventConfig, collapseRepeats: false }, config);
+    const home1 = graph.nodes.find(n => n.id === '[1,"Home"]')!;
+    const home2 = graph.nodes.find(n => n.id === '[2,"Home"]')!;
+
+    expect(home1.color).toBe(home2.color);
+    expect(home1.meta).toEqual({ step: 1, event: 'Home' });
+  });
+});
+
+describe('PathTransform', () => {
+  const data: TabularData = {
+    rows: [
+      { step1: 'Home', step2: 'Pricing', step3: 'Home', step4: 'Signup', count: 40 },
+      { step1: 'Home', step2: 'Pricing', step3: 'Signup', step4: null, count: 25 },
+      { step1: 'Blog', step2: null, step3: 'Pricing', step4: '', count: 5 },
+      { step1: 'Home', step2: null, step3: null, step4: null, count: 100 },
+    ],
+  };
+  const pathConfig = { stepFields: ['step1', 'step2', 'step3', 'step4'], valueField: 'count' };
+
+  it('links consecutive steps with stage-qualified node ids', () => {
+    const graph = PathTransform.transform(data, pathConfig, config);
+    const homes = graph.nodes.filter(n => n.label === 'Home');
+
+    expect(homes.map(n => n.id)).toEqual(['["step1","Home"]', '["step3","Home"]']);
+    expect(homes.map(n => n.column)).toEqual([0, 2]);
+    expect(graph.links.find(l => l.source.id === '["step1","Home"]')!.value).toBe(65);
+    expect(homes[0].color).toBe(homes[1].color);
+  });
+
+  it('skips empty steps and single-step rows', () => {
+    const graph = PathTransform.transform(data, pathConfig, config);
+    const blog = graph.nodes.find(n => n.id === '["step1","Blog"]')!;
+
+    expect(blog.sourceLinks.map(l => l.target.id)).toEqual(['["step3","Pricing"]']);
+    expect(graph.links.reduce((s, l) => s + l.value, 0)).toBe(40 * 3 + 25 * 2 + 5);
+  });
+
+  it('keeps nodes apart whatever colons their fields and values contain', () => {
+    const graph = PathTransform.transform({
+      rows: [{ 'a:b': 'c', a: 'b:c', next: 'x', count: 1 }],
+    }, { stepFields: ['a:b', 'a', 'next'], valueField: 'count' }, config);
+
+    expect(graph.nodes.map(n => n.label)).toEqual(['c', 'b:c', 'x']);
+    expect(new Set(graph.nodes.map(n => n.id)).size).toBe(3);
+  });
+
+  it('counts rows when no value field is given', () => {
+    const graph = PathTransform.transform(data, { stepFields: ['step1', 'step2'] }, config);
+
+    expect(graph.links).toHaveLength(1);
+    expect(graph.links[0].value).toBe(2);
+  });
+});
+
+describe('ColorMapper', () => {
+  it('prefers literal colors, then the color map, then the palette', () => {
+    const mapper = new ColorMapper({ colorPalette: ['#111', '#222'], colorMap: { Paid: '#abc' }, colorAssignment: 'index' });
+
+    expect(mapper.color('A', 'hsl(10, 50%, 50%)')).toBe('hsl(10, 50%, 50%)');
+    expect(mapper.color('A', 'Paid')).toBe('#abc');
+    expect(mapper.color('A')).toBe('#111');
+    expect(mapper.color('B', 'Organic')).toBe('#222');
+    expect(mapper.color('C', 'Organic')).toBe('#222');
+    expect(mapper.color('D')).toBe('#111');
+  });
+
+  it('does not mistake category names for colors', () => {
+    expect(ColorMapper.isColor('#a1b2c3')).toBe(true);
+    expect(ColorMapper.isColor('rgba(0,0,0,0.5)')).toBe(true);
+    expect(ColorMapper.isColor('#cafe-latte')).toBe(false);
+    expect(ColorMapper.isColor('Red')).toBe(false);
+  });
+});
+
+describe('DiagnosticsAnalyzer', () => {
+  const emptyIssues = (): RowIssues => ({ skippedRows: [], coercedValues: [] });
+
+  it('reports skipped rows with reasons and coerced values', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'A', to: 'B', count: '12' },
+        { from: '', to: 'B', count: 1 },
+        { from: 'A', to: null, count: 1 },
+        { from: 'A', to: 'C', count: 'n/a' },
+        { from: 'A', to: 'C', count: 0 },
+        { from: 'A', to: 'C' },
+      ],
+    };
+    const issues = emptyIssues();
+    const graph = TabularTransform.transform(data, transformConfig, config, issues);
+
+    expect(graph.links[0].value).toBe(12);
+    expect(issues.skippedRows).toEqual([
+      { index: 1, reason: 'missing-source' },
+      { index: 2, reason: 'missing-target' },
+      { index: 3, reason: 'invalid-value' },
+      { index: 4, reason: 'non-positive-value' },
+      { index: 5, reason: 'missing-value' },
+    ]);
+    expect(issues.coercedValues).toEqual([{ index: 0, field: 'count', raw: '12', value: 12 }]);
+  });
+
+  it('reports skipped event and path rows', () => {
+    const eventIssues = emptyIssues();
+    EventLogTransform.transform({
+      rows: [
+        { s: '', t: 1, e: 'Home' },
+        { s: 'x', t: 'soon', e: 'Home' },
+        { s: 'x', t: 2, e: '' },
+      ],
+    }, { sessionField: 's', timestampField: 't', eventField: 'e' }, config, eventIssues);
+    expect(eventIssues.skippedRows.map(r => r.reason)).toEqual(['missing-session', 'invalid-timestamp', 'missing-event']);
+
+    const pathIssues = emptyIssues();
+    PathTransform.transform({
+      rows: [{ a: 'Home', b: null, n: 3 }, { a: 'Home', b: 'Docs', n: -1 }],
+    }, { stepFields: ['a', 'b'], valueField: 'n' }, config, pathIssues);
+    expect(pathIssues.skippedRows.map(r => r.reason)).toEqual(['single-step', 'non-positive-value']);
+  });
+
+  it('finds self-loops, cycles, disconnected parts and imbalance', () => {
+    const data: TabularData = {
+      rows: [
+        { from: 'A', to: 'B', count: 10 },
+        { from: 'B', to: 'C', count: 4 },
+        { from: 'C', to: 'B', count: 2 },
+        { from: 'C', to: 'C', count: 1 },
+        { from: 'X', to: 'Y', count: 5 },
+        { from: 'Y', to: 'Z', count: 8 },
+      ],
+    };
+    const graph = TabularTransform.transform(data, transformConfig, config);
+    const report = DiagnosticsAnalyzer.analyze(graph);
+
+    expect(report.selfLoops.map(l => l.source.id)).toEqual(['C']);
+    expect(report.cycles).toEqual([['B', 'C']]);
+    expect(report.components).toEqual([['A', 'B', 'C'], ['X', 'Y', 'Z']]);
+    expect(report.imbalance.find(i => i.nodeId === 'Y')).toEqual({ nodeId: 'Y', inflow: 5, outflow: 8, difference: 3 });
+    expect(DiagnosticsAnalyzer.summarize(report)).toEqual([
+      '1 self-loop',
+      '1 cycle',
+      '2 disconnected parts',
+      '1 node sends more than it receives',
+    ]);
+  });
+});
+
+describe('GraphFilter', () => {
+  // Landing → Home → (Pricing | Blog); Pricing → Checkout → Paid; Blog → Exit
+  const data: TabularData = {
+    rows: [
+      { from: 'Landing', to: 'Home', count: 100 },
+      { from: 'Ad', to: 'Pricing', count: 20 },
+      { from: 'Home', to: 'Pricing', count: 60 },
+      { from: 'Home', to: 'Blog', count: 40 },
+      { from: 'Pricing', to: 'Checkout', count: 50 },
+      { from: 'Checkout', to: 'Paid', count: 30 },
+      { from: 'Blog', to: 'Exit', count: 35 },
+    ],
+  };
+  const build = () => TabularTransform.transform(data, transformConfig, config);
+  const ids = (graph: ReturnType<typeof build>) => graph.nodes.map(n => n.id);
+
+  it('keeps or drops nodes and the links touching them', () => {
+    const graph = build();
+
+    expect(ids(GraphFilter.apply(graph, { excludeNodes: ['Blog'] })))
+      .toEqual(['Landing', 'Home', 'Ad', 'Pricing', 'Checkout', 'Paid']);
+    expect(ids(GraphFilter.apply(graph, { includeNodes: ['Home', 'Pricing', 'Blog'] })))
+      .toEqual(['Home', 'Pricing', 'Blog']);
+    expect(graph.links).toHaveLength(7);
+  });
+
+  it('drops small links and keeps the top N', () => {
+    const graph = build();
+
+    expect(GraphFilter.apply(graph, { minLinkValue: 40 }).links.map(l => l.value)).toEqual([100, 60, 40, 50]);
+    expect(GraphFilter.apply(graph, { topLinks: 2 }).links.map(l => l.value)).toEqual([100, 60]);
+  });
+
+  it('focuses on flows through a node within a number of hops', () => {
+    const graph = build();
+    const all = GraphFilter.apply(graph, { focus: { node: 'Checkout' } });
+    const near = GraphFilter.apply(graph, { focus: { node: 'Checkout', upstream: 1, downstream: 0 } });
+
+    expect(ids(all)).toEqual(['Landing', 'Home', 'Ad', 'Pricing', 'Checkout', 'Paid']);
+    expect(ids(near)).toEqual(['Pricing', 'Checkout']);
+    expect(near.nodes[0].sourceLinks.map(l => l.target.id)).toEqual(['Checkout']);
+  });
+});
+
+describe('ComparisonTransform', () => {
+  const current: TabularData = {
+    rows: [
+      { from: 'Home', to: 'Pricing', count: 120 },
+      { from: 'Home', to: 'Blog', count: 30 },
+      { from: 'Home', to: 'Docs', count: 10 },
+    ],
+  };
+  const baseline: TabularData = {
+    rows: [
+      { from: 'Home', to: 'Pricing', count: 100 },
+      { from: 'Home', to: 'Blog', count: 60 },
+      { from: 'Home', to: 'Careers', count: 5 },
+    ],
+  };
+
+  it('sizes by the current period and records the change from the baseline', () => {
+    const graph = ComparisonTransform.transform(current, baseline, transformConfig, config);
+
+    expect(graph.links.map(l => l.value)).toEqual([120, 30, 10]);
+    expect(graph.links.map(l => l.comparison)).toEqual([
+      { baseline: 100, delta: 20, change: 0.2 },
+      { baseline: 60, delta: -30, change: -0.5 },
+      { baseline: 0, delta: 10, change: null },
+    ]);
+    expect(graph.nodes.map(n => n.id)).not.toContain('Careers');
+    expect(graph.nodes[0].comparison).toEqual({ baseline: 165, delta: -5, change: -5 / 165 });
+  });
+
+  it('sums baselines when bucketing compared nodes', () => {
+    const graph = ComparisonTransform.transform(current, baseline, transformConfig, config);
+    new SankeyLayout({ ...config, nodeAlign: 'left' }).assignColumns(graph);
+    const bucketed = OtherBucketer.bucket(graph, { topN: 1 });
+
+    const other = bucketed.nodes.find(n => n.meta?.isOther)!;
+    expect(other.comparison).toEqual({ baseline: 60, delta: -20, change: -20 / 60 });
+    expect(other.targetLinks[0].comparison).toEqual({ baseline: 60, delta: -20, change: -20 / 60 });
+  });
+});
+
+describe('GraphExporter', () => {
+  function graph() {
+    const g = TabularTransform.transform({
+      rows: [
+        { from: 'Home', to: 'Pricing', sessions: 60, revenue: 600 },
+        { from: 'Home', to: 'Blog, News', sessions: 40, revenue: 0 },
+        { from: 'Pricing', to: 'Checkout', sessions: 30, revenue: 900 },
+      ],
+    }, { sourceField: 'from', targetField: 'to', valueFields: ['sessions', 'revenue'] }, config);
+    new SankeyLayout(config).compute(g);
+    return g;
+  }
+
+  it('lists node values with journey metrics and links by node id', () => {
+    const data = GraphExporter.build(graph(), ['Checkout']);
+
+    const pricing = data.nodes.find(n => n.nodeId === 'Pricing')!;
+    expect(pricing).toMatchObject({ value: 60, inflow: 60, outflow: 30, dropOffRate: 0.5, goalRate: 0.5 });
+    expect(data.links[0]).toEqual({
+      source: 'Home', target: 'Pricing', value: 60, values: { sessions: 60, revenue: 600 },
+    });
+    expect(JSON.parse(GraphExporter.toJSON(graph()))).toEqual(GraphExporter.build(graph()));
+  });
+
+  it('writes one CSV table with measure columns and quoted cells', () => {
+    const lines = GraphExporter.toCSV(graph()).split('\n');
+
+    expect(lines[0]).toBe(
+      'type,id,label,source,target,value,sessions,revenue,inflow,outflow,dropOff,dropOffRate,conversionRate,isSource,isSink',
+    );
+    expect(lines).toHaveLength(1 + 4 + 3);
+    expect(lines[1]).toBe('node,Home,Home,,,100,,,0,100,0,0,1,true,false');
+    expect(lines).toContain('node,"Blog, News","Blog, News",,,40,,,40,0,0,0,0,false,true');
+    expect(lines).toContain('link,,,Home,"Blog, News",40,40,0,,,,,,,');
+  });
+
+  it('adds goal and comparison columns when the graph has them', () => {
+    const rows = (n: number) => ({ rows: [{ from: 'A', to: 'B', count: n }] });
+    const g = ComparisonTransform.transform(rows(30), rows(20), transformConfig, config);
+    new SankeyLayout(config).compute(g);
+    const lines = GraphExporter.toCSV(g, ['B']).split('\n');
+
+    expect(lines[0].endsWith('goalRate,goalValue,firstTouch,lastTouch,baseline,delta,change')).toBe(true);
+    expect(lines[3]).toBe('link,,,A,B,30,,,,,,,,,,,,20,10,0.5');
+  });
 });
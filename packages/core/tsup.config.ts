@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    // Standalone script for `layoutWorker`; use the .global.js (classic) build
+    'layout.worker': 'src/layout/worker.ts',
+  },
   format: ['esm', 'cjs', 'iife'],
   globalName: 'OpenSankey',
   dts: true,
@@ -1,5 +1,5 @@
 import { SankeyChart } from '@opensankey/core';
-import type { SankeyConfig, TabularData, TransformConfig } from '@opensankey/core';
+import type { SankeyConfig, TabularData, TransformConfig, ThemeName } from '@opensankey/core';
 
 /**
  * Looker Custom Visualization Adapter for Sankey Charts.
@@ -92,6 +92,19 @@ const viz: LookerViz = {
       section: 'Style',
       order: 4,
     },
+    theme: {
+      type: 'string',
+      label: 'Theme',
+      default: 'light',
+      display: 'select',
+      values: [
+        { 'Light': 'light' },
+        { 'Dark': 'dark' },
+        { 'High contrast': 'high-contrast' },
+      ],
+      section: 'Style',
+      order: 5,
+    },
   },
 
   create(element: HTMLElement) {
@@ -133,6 +146,7 @@ const viz: LookerViz = {
       nodePadding: Number(config.nodePadding) || 12,
       linkOpacity: Number(config.linkOpacity) || 0.4,
       highlightMode: (config.highlightMode as SankeyConfig['highlightMode']) || 'both',
+      theme: (config.theme as ThemeName) || 'light',
     };
 
     // Clear and re-create chart
@@ -1,5 +1,5 @@
 import { SankeyChart } from '@opensankey/core';
-import type { SankeyConfig, TabularData, TransformConfig } from '@opensankey/core';
+import type { SankeyConfig, TabularData, TransformConfig, ThemeName } from '@opensankey/core';
 
 /**
  * Power BI Custom Visual for Sankey Charts.
@@ -120,6 +120,8 @@ class SankeyVisual implements IVisual {
       nodePadding: Number(objects['nodePadding']) || 14,
       linkOpacity: Number(objects['linkOpacity']) || 0.18,
       highlightMode: (String(objects['highlightMode'] || 'both')) as SankeyConfig['highlightMode'],
+      // Report canvases are white unless the author changes them
+      theme: (String(objects['theme'] || 'light')) as ThemeName,
     };
 
     this.container.innerHTML = '';